@@ -26,7 +26,13 @@ interface Window {
   ipcRenderer: import('electron').IpcRenderer
   electronAPI: {
     getMonitors: () => Promise<any[]>
-    selectMonitor: (index: number | 'all') => Promise<void>
+    getMonitorKeyStatus: (keys: string[]) => Promise<import('./monitors').MonitorKeyStatus[]>
+    getEncoders: () => Promise<{ available: import('./encoders').EncoderInfo[]; active: string | null; fallback: string | null }>
+    getPendingReplay: () => Promise<{ path: string; url: string; layout: import('./layout').CanvasLayout | null; queued: number; defaultTarget: string; timeout: number } | null>
+    getMonitorPreviews: () => Promise<Record<string, string>>
+    selectMonitor: (monitorKey: string | 'all' | 'composite', options?: import('./obs').ExportOptions) => Promise<void>
+    selectRegion: (region: import('./layout').Rect, options?: import('./obs').ExportOptions) => Promise<void>
+    cancelSave: () => Promise<void>
 
     // Settings API
     getSettings: () => Promise<any>
@@ -36,6 +42,29 @@ interface Window {
     resetSettings: () => Promise<any>
     pickFolder: () => Promise<string | null>
     restartOBS: () => Promise<{ success: boolean }>
+    getAudioDevices: () => Promise<Record<'desktop' | 'microphone', import('./obs').AudioDevice[]>>
+
+    // Clip Library
+    listClips: () => Promise<import('./library').ClipInfo[]>
+    getClipDetails: (path: string) => Promise<import('./library').ClipDetails>
+    renameClip: (path: string, newName: string) => Promise<import('./library').ClipInfo>
+    deleteClip: (path: string) => Promise<boolean>
+    showClipInFolder: (path: string) => Promise<void>
+    splitClip: (path: string) => Promise<boolean>
+    onOpenLibrary: (callback: () => void) => () => void
+
+    // Processing queue
+    getProcessingStatus: () => Promise<import('./processing').ProcessingStatus>
+    cancelProcessingJob: (id: number) => Promise<boolean>
+    cancelAllProcessing: () => Promise<number>
+    retryExport: (id: number) => Promise<boolean>
+    onProcessingUpdate: (callback: (status: import('./processing').ProcessingStatus) => void) => () => void
+
+    // Unprocessed replays in staging
+    listStagedReplays: () => Promise<import('./staging').StagedReplay[]>
+    processStagedReplay: (path: string) => Promise<boolean>
+    deleteStagedReplay: (path: string) => Promise<boolean>
+    onStagingUpdate: (callback: () => void) => () => void
   }
 }
 
@@ -0,0 +1,179 @@
+// Video encoders LuminReplay knows how to configure, by vendor.
+// OBS has renamed some encoder ids between versions, so each family lists every id it may
+// be registered under (Advanced output mode names), newest first.
+
+export type EncoderFamily = 'nvenc' | 'amf' | 'qsv' | 'x264';
+
+export type EncoderPreset = 'performance' | 'balanced' | 'quality';
+
+// 'cq' is constant quality: CQP on hardware encoders, CRF on x264
+export type RateControlMode = 'cbr' | 'vbr' | 'cq';
+
+export type H264Profile = 'baseline' | 'main' | 'high';
+
+type EncoderParamValue = string | number | boolean;
+
+export interface EncoderInfo {
+    id: string;             // OBS encoder id, stored in settings.videoEncoder
+    family: EncoderFamily;
+    name: string;
+    hardware: boolean;
+}
+
+const ENCODER_FAMILIES: { family: EncoderFamily; name: string; hardware: boolean; ids: string[] }[] = [
+    { family: 'nvenc', name: 'NVIDIA NVENC', hardware: true, ids: ['jim_nvenc', 'obs_nvenc_h264_tex', 'ffmpeg_nvenc'] },
+    { family: 'amf', name: 'AMD AMF', hardware: true, ids: ['h264_texture_amf', 'amd_amf_h264'] },
+    { family: 'qsv', name: 'Intel Quick Sync', hardware: true, ids: ['obs_qsv11_v2', 'obs_qsv11'] },
+    { family: 'x264', name: 'Software (x264)', hardware: false, ids: ['obs_x264'] },
+];
+
+// Order to try when the configured encoder isn't available on this machine
+export const ENCODER_FALLBACK_ORDER: EncoderFamily[] = ['nvenc', 'amf', 'qsv', 'x264'];
+
+// Simple output mode names used by older settings files
+const LEGACY_ENCODER_IDS: Record<string, string> = {
+    'jim_nvenc_h264': 'jim_nvenc',
+    'x264': 'obs_x264',
+};
+
+export function normalizeEncoderId(id: string): string {
+    return LEGACY_ENCODER_IDS[id] ?? id;
+}
+
+export function getEncoderInfo(id: string): EncoderInfo | null {
+    const normalized = normalizeEncoderId(id);
+    const entry = ENCODER_FAMILIES.find(f => f.ids.includes(normalized));
+    if (!entry) return null;
+    return { id: normalized, family: entry.family, name: entry.name, hardware: entry.hardware };
+}
+
+/**
+ * Known H.264 encoders among the ids OBS reports, one per family (the first id OBS has)
+ */
+export function filterKnownEncoders(reportedIds: string[]): EncoderInfo[] {
+    const encoders: EncoderInfo[] = [];
+    for (const entry of ENCODER_FAMILIES) {
+        const id = entry.ids.find(candidate => reportedIds.includes(candidate));
+        if (id) {
+            encoders.push({ id, family: entry.family, name: entry.name, hardware: entry.hardware });
+        }
+    }
+    return encoders;
+}
+
+/**
+ * Pick the encoder to record with: the configured one if available, otherwise the
+ * first available family in fallback order
+ */
+export function resolveEncoder(configuredId: string, available: EncoderInfo[]): EncoderInfo | null {
+    const configured = getEncoderInfo(configuredId);
+    if (configured) {
+        // Same vendor under a different id (e.g. OBS renamed it) still counts as the configured encoder
+        const match = available.find(e => e.id === configured.id) ?? available.find(e => e.family === configured.family);
+        if (match) return match;
+    }
+
+    for (const family of ENCODER_FALLBACK_ORDER) {
+        const fallback = available.find(e => e.family === family);
+        if (fallback) return fallback;
+    }
+    return null;
+}
+
+// Per-encoder tuning. Each encoder names its properties differently; these are the
+// encoder's own property names, which appear in the Advanced output settings prefixed with "Rec".
+interface EncoderProfile {
+    rateControls: Record<RateControlMode, string>;  // the encoder's name for each rate control mode
+    qualityParam: string;       // property holding the constant-quality value
+    maxBitrateParam?: string;   // property capping VBR peaks, if the encoder has one
+    presets: Record<EncoderPreset, Record<string, EncoderParamValue>>;
+}
+
+// Default constant-quality value per preset - lower = better quality, larger files
+export const DEFAULT_QUALITY_VALUES: Record<EncoderPreset, number> = {
+    'performance': 23,  // Lighter encoding, smaller files
+    'balanced': 21,     // Good balance
+    'quality': 18,      // Best quality, larger files
+};
+
+const ENCODER_PROFILES: Record<EncoderFamily, EncoderProfile> = {
+    // preset: p1 (fastest/lowest GPU, like ShadowPlay) to p7 (slowest/best quality)
+    nvenc: {
+        rateControls: { cbr: 'CBR', vbr: 'VBR', cq: 'CQP' },
+        qualityParam: 'cqp',
+        maxBitrateParam: 'max_bitrate',
+        presets: {
+            'performance': { preset: 'p1', lookahead: false, psycho_aq: false, bf: 0 },
+            'balanced': { preset: 'p4', lookahead: false, psycho_aq: true, bf: 0 },
+            'quality': { preset: 'p7', lookahead: true, psycho_aq: true, bf: 2 },
+        },
+    },
+    // preset: speed / balanced / quality. B-frames are left at the default - not every AMD GPU supports them.
+    amf: {
+        rateControls: { cbr: 'CBR', vbr: 'VBR', cq: 'CQP' },
+        qualityParam: 'cqp',
+        presets: {
+            'performance': { preset: 'speed' },
+            'balanced': { preset: 'balanced' },
+            'quality': { preset: 'quality' },
+        },
+    },
+    // target_usage: TU7 (fastest) to TU1 (best quality)
+    qsv: {
+        rateControls: { cbr: 'CBR', vbr: 'VBR', cq: 'CQP' },
+        qualityParam: 'cqp',
+        maxBitrateParam: 'max_bitrate',
+        presets: {
+            'performance': { target_usage: 'TU7', bframes: 0 },
+            'balanced': { target_usage: 'TU4', bframes: 0 },
+            'quality': { target_usage: 'TU1', bframes: 2 },
+        },
+    },
+    // x264 runs on the CPU alongside the game, so even "quality" stays at a fast preset
+    x264: {
+        rateControls: { cbr: 'CBR', vbr: 'VBR', cq: 'CRF' },
+        qualityParam: 'crf',
+        presets: {
+            'performance': { preset: 'ultrafast', tune: 'zerolatency' },
+            'balanced': { preset: 'veryfast', tune: '' },
+            'quality': { preset: 'faster', tune: '' },
+        },
+    },
+};
+
+// VBR may peak this far above the target bitrate on encoders with a separate cap
+const VBR_PEAK_RATIO = 1.5;
+
+export interface EncoderOptions {
+    preset: EncoderPreset;
+    rateControl: RateControlMode;
+    quality: number;           // CQP/CRF value, used in 'cq' mode
+    bitrate: number;           // kbps, used in 'cbr'/'vbr' modes
+    keyframeInterval: number;  // seconds, 0 lets the encoder decide
+    profile: H264Profile;
+}
+
+/**
+ * Encoder properties to apply, keyed by the encoder's property name
+ */
+export function getEncoderParams(family: EncoderFamily, options: EncoderOptions): Record<string, EncoderParamValue> {
+    const profile = ENCODER_PROFILES[family];
+    const presetParams = profile.presets[options.preset] ?? profile.presets['balanced'];
+
+    const params: Record<string, EncoderParamValue> = {
+        rate_control: profile.rateControls[options.rateControl] ?? profile.rateControls['cq'],
+        keyint_sec: options.keyframeInterval,
+        profile: options.profile,
+    };
+
+    if (options.rateControl === 'cbr' || options.rateControl === 'vbr') {
+        params.bitrate = options.bitrate;
+        if (options.rateControl === 'vbr' && profile.maxBitrateParam) {
+            params[profile.maxBitrateParam] = Math.round(options.bitrate * VBR_PEAK_RATIO);
+        }
+    } else {
+        params[profile.qualityParam] = options.quality;
+    }
+
+    return { ...presetParams, ...params };
+}
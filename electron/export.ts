@@ -0,0 +1,148 @@
+import ffmpeg from 'fluent-ffmpeg';
+
+// Encoding used when ffmpeg re-encodes a saved replay (crop, region, trim).
+// These are software encoders - exports run after the save, so they trade speed for quality
+// instead of competing with the game for the GPU.
+
+export type ExportVideoCodec = 'h264' | 'hevc' | 'av1';
+
+export type ExportAudioCodec = 'copy' | 'aac' | 'opus';
+
+export type ExportPreset = 'veryfast' | 'fast' | 'medium' | 'slow';
+
+export type ExportContainer = 'mp4' | 'mkv' | 'flv';
+
+export interface ExportEncoding {
+    videoCodec: ExportVideoCodec;
+    preset: ExportPreset;
+    crf: number;
+    audioCodec: ExportAudioCodec;
+    audioBitrate: number;      // kbps, ignored when copying audio
+    matchSourceBitrate: boolean;
+}
+
+const VIDEO_ENCODERS: Record<ExportVideoCodec, string> = {
+    'h264': 'libx264',
+    'hevc': 'libx265',
+    'av1': 'libsvtav1',
+};
+
+// CRF scales differ per codec; these give roughly the same visual quality
+export const DEFAULT_EXPORT_CRF: Record<ExportVideoCodec, number> = {
+    'h264': 20,
+    'hevc': 22,
+    'av1': 30,
+};
+
+export const EXPORT_CRF_RANGES: Record<ExportVideoCodec, { min: number; max: number }> = {
+    'h264': { min: 0, max: 51 },
+    'hevc': { min: 0, max: 51 },
+    'av1': { min: 0, max: 63 },
+};
+
+// SVT-AV1 takes a numeric preset (0 = slowest) instead of x264-style names
+const SVT_AV1_PRESETS: Record<ExportPreset, number> = {
+    'veryfast': 10,
+    'fast': 8,
+    'medium': 6,
+    'slow': 4,
+};
+
+const AUDIO_ENCODERS: Record<Exclude<ExportAudioCodec, 'copy'>, string> = {
+    'aac': 'aac',
+    'opus': 'libopus',
+};
+
+/**
+ * Adjust the encoding to what the container can hold - FLV only carries H.264 and AAC
+ */
+export function resolveExportEncoding(encoding: ExportEncoding, container: ExportContainer): ExportEncoding {
+    if (container !== 'flv') return encoding;
+
+    const resolved = { ...encoding };
+    if (resolved.videoCodec !== 'h264') {
+        console.warn(`${resolved.videoCodec.toUpperCase()} can't be stored in FLV, exporting as H.264`);
+        resolved.videoCodec = 'h264';
+        resolved.crf = DEFAULT_EXPORT_CRF['h264'];
+    }
+    if (resolved.audioCodec === 'opus') {
+        console.warn("Opus can't be stored in FLV, exporting audio as AAC");
+        resolved.audioCodec = 'aac';
+    }
+    return resolved;
+}
+
+/**
+ * ffmpeg output options for the export encoding
+ * sourceBitrate (kbps) is the bitrate to hold when matching the source; null falls back to CRF
+ */
+export function getExportOutputOptions(encoding: ExportEncoding, container: ExportContainer, sourceBitrate: number | null): string[] {
+    const options = ['-c:v', VIDEO_ENCODERS[encoding.videoCodec], '-pix_fmt', 'yuv420p'];
+
+    if (encoding.videoCodec === 'av1') {
+        options.push('-preset', String(SVT_AV1_PRESETS[encoding.preset]));
+    } else {
+        options.push('-preset', encoding.preset);
+    }
+
+    if (encoding.matchSourceBitrate && sourceBitrate) {
+        const bitrate = Math.round(sourceBitrate);
+        options.push('-b:v', `${bitrate}k`);
+        // SVT-AV1 has no VBV cap outside CRF mode, the others get a peak limit like the recording
+        if (encoding.videoCodec !== 'av1') {
+            options.push('-maxrate', `${Math.round(bitrate * 1.5)}k`, '-bufsize', `${bitrate * 2}k`);
+        }
+    } else {
+        options.push('-crf', String(encoding.crf));
+    }
+
+    if (encoding.audioCodec === 'copy') {
+        options.push('-c:a', 'copy');
+    } else {
+        options.push('-c:a', AUDIO_ENCODERS[encoding.audioCodec], '-b:a', `${encoding.audioBitrate}k`);
+    }
+
+    if (container === 'mp4') {
+        // hvc1 tag so HEVC plays in QuickTime/Safari; faststart moves the index up front for previews
+        if (encoding.videoCodec === 'hevc') options.push('-tag:v', 'hvc1');
+        options.push('-movflags', '+faststart');
+    }
+
+    return options;
+}
+
+/**
+ * Length of a file in seconds, or null if ffprobe can't tell
+ */
+export function probeDuration(filePath: string): Promise<number | null> {
+    return new Promise((resolve) => {
+        ffmpeg.ffprobe(filePath, (err, data) => {
+            if (err) {
+                console.error('Error probing duration:', err);
+                resolve(null);
+                return;
+            }
+            const duration = Number(data.format?.duration);
+            resolve(Number.isFinite(duration) && duration > 0 ? duration : null);
+        });
+    });
+}
+
+/**
+ * Video bitrate of a file in kbps, or null if ffprobe can't tell
+ * MKV rarely stores a per-stream bitrate, so the container's overall bitrate is used instead
+ */
+export function probeVideoBitrate(filePath: string): Promise<number | null> {
+    return new Promise((resolve) => {
+        ffmpeg.ffprobe(filePath, (err, data) => {
+            if (err) {
+                console.error('Error probing bitrate:', err);
+                resolve(null);
+                return;
+            }
+            const video = data.streams.find(s => s.codec_type === 'video');
+            const bitrate = Number(video?.bit_rate) || Number(data.format?.bit_rate);
+            resolve(bitrate > 0 ? bitrate / 1000 : null);
+        });
+    });
+}
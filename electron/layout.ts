@@ -0,0 +1,209 @@
+import type { Display } from 'electron';
+import type { AppSettings, CustomResolution } from './settings';
+import { getMonitorKey, resolveMonitorKeys } from './monitors';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LayoutDisplay {
+    key: string;          // stable monitor key (see monitors.ts)
+    index: number;        // index into screen.getAllDisplays() at capture time
+    id: number;           // Electron display id
+    label: string;        // display name reported by Windows
+    bounds: Rect;         // native bounds in desktop coordinates
+    scaleFactor: number;  // Windows DPI scaling of the display
+}
+
+/**
+ * Snapshot of the mega-canvas OBS is recording: which displays are in it,
+ * where they sit and the resolutions the canvas is captured and written at
+ */
+export interface CanvasLayout {
+    capturedAt: string;          // ISO timestamp of when the snapshot was taken
+    bounds: Rect;                // native bounding box of the enabled displays
+    captureWidth: number;        // OBS base (canvas) resolution
+    captureHeight: number;
+    outputWidth: number;         // OBS output (scaled) resolution - what gets written to file
+    outputHeight: number;
+    displays: LayoutDisplay[];   // displays that are part of the canvas
+    enabledMonitors: string[] | null;   // enabledMonitors setting at capture time (null = all)
+}
+
+// For presets, we scale proportionally based on height to maintain aspect ratio
+// This is important for multi-monitor mega-canvas setups (e.g., 3840x1080)
+export function getResolutionFromPreset(
+    preset: string,
+    customRes: CustomResolution | undefined,
+    nativeW: number,
+    nativeH: number
+): { width: number; height: number } {
+    switch (preset) {
+        case '1080p': {
+            const scale = 1080 / nativeH;
+            return { width: Math.round(nativeW * scale), height: 1080 };
+        }
+        case '720p': {
+            const scale = 720 / nativeH;
+            return { width: Math.round(nativeW * scale), height: 720 };
+        }
+        case '480p': {
+            const scale = 480 / nativeH;
+            return { width: Math.round(nativeW * scale), height: 480 };
+        }
+        case 'custom':
+            return customRes || { width: 1920, height: 1080 };
+        case 'native':
+        default:
+            return { width: nativeW, height: nativeH };
+    }
+}
+
+/**
+ * Compute the canvas layout for the current displays and settings
+ */
+export function buildCanvasLayout(allDisplays: Display[], settings: AppSettings): CanvasLayout {
+    const layoutDisplays: LayoutDisplay[] = allDisplays.map((d, index) => {
+        const label = d.label || '';
+        return {
+            key: getMonitorKey({ id: d.id, label, bounds: d.bounds }),
+            index,
+            id: d.id,
+            label,
+            bounds: { ...d.bounds },
+            scaleFactor: d.scaleFactor,
+        };
+    });
+
+    // Filter to only enabled monitors (all enabled if undefined).
+    // Saved keys are resolved against the live displays, so a reordered display keeps its setting.
+    let displays = layoutDisplays;
+    if (settings.enabledMonitors) {
+        const enabled = new Set(resolveMonitorKeys(settings.enabledMonitors, layoutDisplays).values());
+        displays = layoutDisplays.filter(d => enabled.has(d));
+    }
+
+    // If no monitors enabled, fall back to all
+    if (displays.length === 0) {
+        console.warn("No monitors enabled, using all displays");
+        displays = layoutDisplays;
+    }
+
+    // Calculate the bounding box that encompasses enabled monitors (native resolution)
+    let minX = 0, minY = 0, maxX = 0, maxY = 0;
+    displays.forEach((d, i) => {
+        if (i === 0 || d.bounds.x < minX) minX = d.bounds.x;
+        if (i === 0 || d.bounds.y < minY) minY = d.bounds.y;
+        if (i === 0 || d.bounds.x + d.bounds.width > maxX) maxX = d.bounds.x + d.bounds.width;
+        if (i === 0 || d.bounds.y + d.bounds.height > maxY) maxY = d.bounds.y + d.bounds.height;
+    });
+
+    const nativeWidth = maxX - minX;
+    const nativeHeight = maxY - minY;
+
+    const captureRes = getResolutionFromPreset(
+        settings.captureResolution,
+        settings.customCaptureResolution,
+        nativeWidth,
+        nativeHeight
+    );
+    const outputRes = getResolutionFromPreset(
+        settings.outputResolution,
+        settings.customOutputResolution,
+        nativeWidth,
+        nativeHeight
+    );
+
+    return {
+        capturedAt: new Date().toISOString(),
+        bounds: { x: minX, y: minY, width: nativeWidth, height: nativeHeight },
+        captureWidth: captureRes.width,
+        captureHeight: captureRes.height,
+        outputWidth: outputRes.width,
+        outputHeight: outputRes.height,
+        displays,
+        enabledMonitors: settings.enabledMonitors ? [...settings.enabledMonitors] : null,
+    };
+}
+
+/**
+ * Whether two layouts would produce the same canvas (same displays, geometry and resolutions)
+ */
+export function isSameCanvas(a: CanvasLayout, b: CanvasLayout): boolean {
+    if (a.captureWidth !== b.captureWidth || a.captureHeight !== b.captureHeight) return false;
+    if (a.outputWidth !== b.outputWidth || a.outputHeight !== b.outputHeight) return false;
+    if (a.displays.length !== b.displays.length) return false;
+
+    return a.displays.every((d, i) => {
+        const other = b.displays[i];
+        return d.key === other.key && d.index === other.index && d.scaleFactor === other.scaleFactor;
+    });
+}
+
+/**
+ * Crop rectangle of a display within the written file, in output pixels
+ */
+export function getCropRect(layout: CanvasLayout, display: LayoutDisplay): Rect {
+    const scaleX = layout.outputWidth / layout.bounds.width;
+    const scaleY = layout.outputHeight / layout.bounds.height;
+
+    return {
+        x: Math.round((display.bounds.x - layout.bounds.x) * scaleX),
+        y: Math.round((display.bounds.y - layout.bounds.y) * scaleY),
+        width: Math.round(display.bounds.width * scaleX),
+        height: Math.round(display.bounds.height * scaleY),
+    };
+}
+
+/**
+ * Crop rectangle of a free-form region (desktop coordinates) within the written file.
+ * Clamped to the canvas and rounded to even sizes, which yuv420 encoders require.
+ */
+export function getRegionCropRect(layout: CanvasLayout, region: Rect): Rect {
+    const scaleX = layout.outputWidth / layout.bounds.width;
+    const scaleY = layout.outputHeight / layout.bounds.height;
+
+    // Clamp each edge, so a region hanging off the canvas loses the part outside instead of shifting
+    const x = Math.max(0, Math.round((region.x - layout.bounds.x) * scaleX));
+    const y = Math.max(0, Math.round((region.y - layout.bounds.y) * scaleY));
+    const right = Math.min(layout.outputWidth, Math.round((region.x + region.width - layout.bounds.x) * scaleX));
+    const bottom = Math.min(layout.outputHeight, Math.round((region.y + region.height - layout.bounds.y) * scaleY));
+    const width = Math.max(0, right - x);
+    const height = Math.max(0, bottom - y);
+
+    return {
+        x,
+        y,
+        width: width - (width % 2),
+        height: height - (height % 2),
+    };
+}
+
+/**
+ * Display of the layout containing a desktop point, or the closest one if the point
+ * is on a monitor that isn't part of the canvas
+ */
+export function findDisplayNearestPoint(layout: CanvasLayout, point: { x: number; y: number }): LayoutDisplay | null {
+    let nearest: LayoutDisplay | null = null;
+    let nearestDistance = Infinity;
+
+    for (const display of layout.displays) {
+        const { x, y, width, height } = display.bounds;
+        const dx = Math.max(x - point.x, 0, point.x - (x + width - 1));
+        const dy = Math.max(y - point.y, 0, point.y - (y + height - 1));
+        const distance = dx * dx + dy * dy;
+        if (distance < nearestDistance) {
+            nearest = display;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width &&
+        a.y < b.y + b.height && b.y < a.y + a.height;
+}
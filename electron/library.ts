@@ -0,0 +1,298 @@
+import { app, ipcMain, protocol, net, shell } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+import ffmpeg from 'fluent-ffmpeg';
+import SettingsManager from './settings';
+import { ClipMetadata, readClipMetadata, moveClipMetadata, getMetadataPath } from './metadata';
+
+// Custom scheme used by the renderer to load local clips and thumbnails.
+// The dev renderer runs on http://localhost, which can't load file:// URLs directly.
+const MEDIA_SCHEME = 'lumin-media';
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.flv', '.mov'];
+
+export interface ClipInfo {
+    path: string;
+    name: string;
+    size: number;           // bytes
+    createdAt: number;      // ms since epoch
+    monitor: number | null; // 1-based monitor number, null for full canvas recordings
+    splittable: boolean;    // full multi-monitor canvas whose layout is known, so it can be split per monitor
+    url: string;            // media URL the renderer can play
+    metadata: ClipMetadata | null;
+}
+
+export interface ClipDetails {
+    duration: number | null; // seconds
+    thumbnailUrl: string | null;
+}
+
+/**
+ * Build a media URL for a local file that the renderer can use in <video>/<img>
+ */
+export function toMediaUrl(filePath: string): string {
+    return `${MEDIA_SCHEME}://media/?path=${encodeURIComponent(filePath)}`;
+}
+
+export class LibraryManager {
+    private static instance: LibraryManager;
+    private thumbnailDir: string;
+    private detailsCache = new Map<string, ClipDetails>();
+
+    private constructor() {
+        this.thumbnailDir = path.join(app.getPath('userData'), 'thumbnails');
+        this.initIPC();
+    }
+
+    public static getInstance(): LibraryManager {
+        if (!LibraryManager.instance) {
+            LibraryManager.instance = new LibraryManager();
+        }
+        return LibraryManager.instance;
+    }
+
+    /**
+     * Register the media scheme as privileged. Must be called before the app is ready.
+     */
+    public static registerSchemes() {
+        protocol.registerSchemesAsPrivileged([
+            { scheme: MEDIA_SCHEME, privileges: { stream: true, supportFetchAPI: true, bypassCSP: true } }
+        ]);
+    }
+
+    /**
+     * Serve clips and thumbnails over the media scheme. Must be called after the app is ready.
+     * isAllowed lets other folders through, e.g. staging under a previous recordings folder.
+     */
+    public registerProtocol(isAllowed?: (filePath: string) => boolean) {
+        protocol.handle(MEDIA_SCHEME, (request) => {
+            const filePath = new URL(request.url).searchParams.get('path');
+
+            // Only serve files from the recordings folder, our thumbnail cache or what the caller allows
+            if (!filePath || !(this.isInsideRecordings(filePath) || this.isInside(this.thumbnailDir, filePath) || isAllowed?.(filePath))) {
+                return new Response('Forbidden', { status: 403 });
+            }
+
+            // Forward headers so Range requests work and <video> can seek
+            return net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers });
+        });
+    }
+
+    private initIPC() {
+        ipcMain.handle('library-list', async () => {
+            return await this.listClips();
+        });
+
+        ipcMain.handle('library-get-details', async (_, filePath: string) => {
+            return await this.getClipDetails(filePath);
+        });
+
+        ipcMain.handle('library-rename', async (_, filePath: string, newName: string) => {
+            return await this.renameClip(filePath, newName);
+        });
+
+        ipcMain.handle('library-delete', async (_, filePath: string) => {
+            return await this.deleteClip(filePath);
+        });
+
+        ipcMain.handle('library-show-in-folder', (_, filePath: string) => {
+            if (this.isInsideRecordings(filePath)) {
+                shell.showItemInFolder(filePath);
+            }
+        });
+    }
+
+    private getRecordingPath(): string {
+        return SettingsManager.getInstance().getSetting('recordingPath');
+    }
+
+    private isInside(dir: string, filePath: string): boolean {
+        const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    public isInsideRecordings(filePath: string): boolean {
+        return this.isInside(this.getRecordingPath(), filePath);
+    }
+
+    /**
+     * List every clip under the recording path, newest first
+     */
+    public async listClips(): Promise<ClipInfo[]> {
+        const root = this.getRecordingPath();
+        if (!root || !fs.existsSync(root)) return [];
+
+        const files: string[] = [];
+        const walk = async (dir: string) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            for (const entry of entries) {
+                // Skip hidden folders (working directories, caches)
+                if (entry.name.startsWith('.')) continue;
+
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(fullPath);
+                } else if (VIDEO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                    files.push(fullPath);
+                }
+            }
+        };
+
+        try {
+            await walk(root);
+        } catch (err) {
+            console.error('Error reading recordings folder:', err);
+        }
+
+        const clips: ClipInfo[] = [];
+        for (const file of files) {
+            try {
+                clips.push(await this.getClipInfo(file));
+            } catch (err) {
+                console.error(`Error reading clip ${file}:`, err);
+            }
+        }
+
+        return clips.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    private async getClipInfo(filePath: string): Promise<ClipInfo> {
+        const stats = await fs.promises.stat(filePath);
+        const name = path.basename(filePath);
+        const metadata = readClipMetadata(filePath);
+
+        // Prefer the sidecar; fall back to the "... -monitor-N.ext" naming for older clips
+        let monitor: number | null = null;
+        if (metadata) {
+            monitor = metadata.monitors.length === 1 ? metadata.monitors[0].index + 1 : null;
+        } else {
+            const monitorMatch = name.match(/-monitor-(\d+)\.[^.]+$/);
+            monitor = monitorMatch ? Number(monitorMatch[1]) : null;
+        }
+
+        return {
+            path: filePath,
+            name,
+            size: stats.size,
+            createdAt: metadata ? Date.parse(metadata.capturedAt) : (stats.birthtimeMs || stats.mtimeMs),
+            monitor,
+            splittable: metadata?.source === 'canvas' && metadata.canvas.displays.length > 1,
+            url: toMediaUrl(filePath),
+            metadata,
+        };
+    }
+
+    /**
+     * Get the slower-to-compute details of a clip (duration and thumbnail)
+     */
+    public async getClipDetails(filePath: string): Promise<ClipDetails> {
+        if (!this.isInsideRecordings(filePath) || !fs.existsSync(filePath)) {
+            return { duration: null, thumbnailUrl: null };
+        }
+
+        const stats = await fs.promises.stat(filePath);
+        const cacheKey = `${filePath}:${stats.mtimeMs}`;
+        const cached = this.detailsCache.get(cacheKey);
+        if (cached) return cached;
+
+        const duration = await this.probeDuration(filePath);
+        const thumbnailPath = await this.generateThumbnail(filePath, cacheKey, duration);
+
+        const details: ClipDetails = {
+            duration,
+            thumbnailUrl: thumbnailPath ? toMediaUrl(thumbnailPath) : null,
+        };
+        this.detailsCache.set(cacheKey, details);
+        return details;
+    }
+
+    private probeDuration(filePath: string): Promise<number | null> {
+        return new Promise((resolve) => {
+            ffmpeg.ffprobe(filePath, (err, data) => {
+                if (err) {
+                    console.error('Error probing clip:', err);
+                    resolve(null);
+                    return;
+                }
+                const duration = Number(data.format?.duration);
+                resolve(Number.isFinite(duration) ? duration : null);
+            });
+        });
+    }
+
+    private async generateThumbnail(filePath: string, cacheKey: string, duration: number | null): Promise<string | null> {
+        const hash = crypto.createHash('sha1').update(cacheKey).digest('hex');
+        const fileName = `${hash}.jpg`;
+        const thumbnailPath = path.join(this.thumbnailDir, fileName);
+
+        if (fs.existsSync(thumbnailPath)) return thumbnailPath;
+
+        await fs.promises.mkdir(this.thumbnailDir, { recursive: true });
+
+        // Grab a frame a little way in to skip any black first frame
+        const timestamp = duration ? Math.min(duration * 0.1, 5) : 0;
+
+        return new Promise((resolve) => {
+            ffmpeg(filePath)
+                .screenshots({
+                    timestamps: [timestamp],
+                    filename: fileName,
+                    folder: this.thumbnailDir,
+                    size: '320x?',
+                })
+                .on('end', () => resolve(thumbnailPath))
+                .on('error', (err) => {
+                    console.error('Error generating thumbnail:', err);
+                    resolve(null);
+                });
+        });
+    }
+
+    /**
+     * Rename a clip, keeping its extension and folder
+     */
+    public async renameClip(filePath: string, newName: string): Promise<ClipInfo> {
+        if (!this.isInsideRecordings(filePath) || !fs.existsSync(filePath)) {
+            throw new Error('Clip not found');
+        }
+
+        // Strip characters Windows doesn't allow in file names
+        const baseName = newName.replace(/[<>:"/\\|?*]/g, '').trim();
+        if (!baseName) {
+            throw new Error('Invalid clip name');
+        }
+
+        const ext = path.extname(filePath);
+        const newPath = path.join(path.dirname(filePath), `${baseName}${ext}`);
+        if (newPath === filePath) {
+            return await this.getClipInfo(filePath);
+        }
+        if (fs.existsSync(newPath)) {
+            throw new Error('A clip with that name already exists');
+        }
+
+        await fs.promises.rename(filePath, newPath);
+        await moveClipMetadata(filePath, newPath);
+        console.log(`Renamed clip: ${filePath} -> ${newPath}`);
+
+        return await this.getClipInfo(newPath);
+    }
+
+    /**
+     * Delete a clip by moving it to the recycle bin
+     */
+    public async deleteClip(filePath: string): Promise<boolean> {
+        if (!this.isInsideRecordings(filePath) || !fs.existsSync(filePath)) {
+            return false;
+        }
+
+        await shell.trashItem(filePath);
+        if (fs.existsSync(getMetadataPath(filePath))) {
+            await shell.trashItem(getMetadataPath(filePath));
+        }
+        console.log('Deleted clip:', filePath);
+        return true;
+    }
+}
@@ -2,8 +2,14 @@ import { app, BrowserWindow, ipcMain, globalShortcut, Tray, Menu, nativeImage, s
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs'
-import { OBSManager } from './obs'
+import { OBSManager, ExportOptions, PartialExportError, ReplayTarget } from './obs'
+import { Rect, findDisplayNearestPoint } from './layout'
 import SettingsManager from './settings'
+import { LibraryManager, toMediaUrl } from './library'
+import { JobCanceledError, ProcessingQueue, ProcessingStatus } from './processing'
+import { StagingManager } from './staging'
+import { extractMonitorPreviews, removeMonitorPreviews } from './previews'
+import { readClipMetadata } from './metadata'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -15,6 +21,9 @@ export const RENDERER_DIST = path.join(process.env.APP_ROOT, 'dist')
 
 process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL ? path.join(process.env.APP_ROOT, 'public') : RENDERER_DIST
 
+// Custom protocols must be registered before the app is ready
+LibraryManager.registerSchemes()
+
 // --- Debug Console Implementation ---
 let debugWindow: BrowserWindow | null = null
 
@@ -125,8 +134,12 @@ console.warn = (...args) => {
 let win: BrowserWindow | null = null
 let overlayWindow: BrowserWindow | null = null
 let notificationWindow: BrowserWindow | null = null
+let notificationType: NotificationType | null = null
 let tray: Tray | null = null
-let lastReplayPath: string | null = null
+let overlayReplayPath: string | null = null  // Replay the open overlay is choosing an export for
+const queuedOverlayReplays: string[] = []    // Replays saved while the overlay was open, shown next
+const replayActivePoints = new Map<string, Electron.Point>()  // Where the user was working when each overlay replay was saved
+const overlayPreviews = new Map<string, Promise<Record<string, string>>>()  // Monitor preview frames per overlay replay
 let isQuitting = false
 
 function createWindow() {
@@ -202,15 +215,29 @@ function createTray() {
   })
 }
 
-function showOverlay() {
+// Show the overlay for a saved replay. Each overlay session is bound to one file; replays saved
+// while it's open wait their turn instead of replacing the file the user is looking at.
+// activePoint is where the user was working at save time, for the "active monitor" default action.
+function showOverlay(replayPath: string, activePoint?: Electron.Point) {
+  if (activePoint) replayActivePoints.set(replayPath, activePoint)
+
   if (overlayWindow) {
+    queuedOverlayReplays.push(replayPath)
+    console.log(`Overlay busy, queued replay (${queuedOverlayReplays.length} waiting):`, replayPath)
     overlayWindow.focus()
     return
   }
 
+  overlayReplayPath = replayPath
+  StagingManager.getInstance().claim(replayPath)
+
+  // Start extracting the monitor previews while the window loads
+  const layout = OBSManager.getInstance().getReplayLayout(replayPath)
+  overlayPreviews.set(replayPath, layout ? extractMonitorPreviews(replayPath, layout) : Promise.resolve({}))
+
   overlayWindow = new BrowserWindow({
-    width: 450,
-    height: 670,
+    width: 640,
+    height: 960,
     frame: false,
     transparent: true,
     backgroundColor: '#00000000', // Ensure fully transparent background
@@ -239,11 +266,114 @@ function showOverlay() {
   }
 
   overlayWindow.on('closed', () => {
+    // Closed without a choice (not Cancel) - the replay stays staged and is offered as a leftover
+    if (overlayReplayPath) {
+      StagingManager.getInstance().unclaim(overlayReplayPath)
+    }
+    replayActivePoints.delete(replayPath)
+    overlayPreviews.get(replayPath)?.then(previews => removeMonitorPreviews(Object.values(previews)))
+    overlayPreviews.delete(replayPath)
     overlayWindow = null
+    overlayReplayPath = null
+
+    // Next replay saved while this one was open
+    const next = queuedOverlayReplays.shift()
+    if (next) showOverlay(next)
   })
 }
 
-function showNotification(type: 'recorded' | 'saved' | 'buffer-on' | 'buffer-off') {
+// Replay of the overlay session an IPC call came from, or null if the sender isn't the open overlay
+function getOverlayReplay(sender: Electron.WebContents) {
+  if (!overlayWindow || overlayWindow.isDestroyed() || overlayWindow.webContents !== sender) return null
+  return overlayReplayPath
+}
+
+// What the overlay's default action (Enter, or the timeout) saves for a replay: a monitor key,
+// 'all' or 'composite'. The active monitor is resolved against the layout the replay was recorded with.
+function getOverlayDefaultTarget(replayPath: string): string {
+  const action = SettingsManager.getInstance().getAllSettings().overlayDefaultAction
+  if (action !== 'active') return action
+
+  const layout = OBSManager.getInstance().getReplayLayout(replayPath)
+  const point = replayActivePoints.get(replayPath) ?? screen.getCursorScreenPoint()
+  const display = layout ? findDisplayNearestPoint(layout, point) : null
+  return display ? display.key : 'all'
+}
+
+// End the overlay session: the file is no longer the overlay's to act on
+function closeOverlay() {
+  overlayReplayPath = null
+  if (overlayWindow) overlayWindow.close()
+}
+
+type NotificationType = 'recorded' | 'saved' | 'buffer-on' | 'buffer-off' | 'display-changed' | 'encoder-fallback' | 'processing' | 'error' | 'staging'
+
+// Errors stay up longer so there's time to read the reason and hit Retry
+const NOTIFICATION_DURATION_MS = 3500
+const ERROR_NOTIFICATION_DURATION_MS = 8000
+const ERROR_NOTIFICATION_HEIGHT = 140
+
+// Processing notification: header plus one row per job, showing at most this many rows
+const PROCESSING_NOTIFICATION_WIDTH = 320
+const PROCESSING_HEADER_HEIGHT = 96
+const PROCESSING_ROW_HEIGHT = 46
+const PROCESSING_MAX_ROWS = 4
+
+function showNotification(type: NotificationType, detail?: string) {
+  openNotificationWindow(type, { detail })
+
+  // Auto-close after 3.5 seconds (matches CSS animation)
+  const shown = notificationWindow
+  setTimeout(() => {
+    if (shown && !shown.isDestroyed()) {
+      shown.close()
+    }
+  }, NOTIFICATION_DURATION_MS)
+}
+
+// Error notification with a short reason, and a Retry button when retryId names a failed export
+function showErrorNotification(reason: string, retryId?: number) {
+  openNotificationWindow('error', { detail: reason, retry: retryId }, undefined, ERROR_NOTIFICATION_HEIGHT)
+
+  const shown = notificationWindow
+  // Once dismissed (or replaced), nothing can retry the export anymore
+  if (retryId !== undefined) {
+    shown?.on('closed', () => failedExports.delete(retryId))
+  }
+  setTimeout(() => {
+    if (shown && !shown.isDestroyed()) {
+      shown.close()
+    }
+  }, ERROR_NOTIFICATION_DURATION_MS)
+}
+
+// First line of an error, short enough for a notification (ffmpeg errors include its whole log)
+function describeError(err: unknown) {
+  const message = (err instanceof Error ? err.message : String(err)).split('\n')[0].trim()
+  return message.length > 120 ? `${message.slice(0, 117)}...` : message
+}
+
+// Persistent notification listing the processing queue, stays up until the queue drains
+function showProcessingNotification(status: ProcessingStatus) {
+  const rows = Math.min(status.jobs.length, PROCESSING_MAX_ROWS)
+  const height = PROCESSING_HEADER_HEIGHT + rows * PROCESSING_ROW_HEIGHT
+
+  if (notificationWindow && !notificationWindow.isDestroyed() && notificationType === 'processing') {
+    const [width, currentHeight] = notificationWindow.getSize()
+    if (currentHeight !== height) notificationWindow.setSize(width, height)
+    return
+  }
+
+  openNotificationWindow('processing', {}, PROCESSING_NOTIFICATION_WIDTH, height)
+}
+
+function closeNotification() {
+  if (notificationWindow && !notificationWindow.isDestroyed()) {
+    notificationWindow.close()
+  }
+}
+
+function openNotificationWindow(type: NotificationType, params: { detail?: string; retry?: number }, notificationWidth = 280, notificationHeight = 100) {
   // Close existing notification if any
   if (notificationWindow) {
     notificationWindow.close()
@@ -254,8 +384,6 @@ function showNotification(type: 'recorded' | 'saved' | 'buffer-on' | 'buffer-off
   const primaryDisplay = screen.getPrimaryDisplay()
   const { width: screenWidth } = primaryDisplay.workAreaSize
 
-  const notificationWidth = 280
-  const notificationHeight = 100
   const margin = 16
 
   notificationWindow = new BrowserWindow({
@@ -284,79 +412,194 @@ function showNotification(type: 'recorded' | 'saved' | 'buffer-on' | 'buffer-off
     notificationWindow?.show()
   })
 
+  // Optional detail line (e.g. what changed about the displays) and retry id go along in the query string
+  const query = new URLSearchParams({
+    notification: type,
+    ...(params.detail ? { detail: params.detail } : {}),
+    ...(params.retry !== undefined ? { retry: String(params.retry) } : {}),
+  }).toString()
+
   if (VITE_DEV_SERVER_URL) {
-    notificationWindow.loadURL(`${VITE_DEV_SERVER_URL}?notification=${type}`)
+    notificationWindow.loadURL(`${VITE_DEV_SERVER_URL}?${query}`)
   } else {
-    notificationWindow.loadURL(`file://${path.join(RENDERER_DIST, 'index.html')}?notification=${type}`)
+    notificationWindow.loadURL(`file://${path.join(RENDERER_DIST, 'index.html')}?${query}`)
   }
 
-  notificationWindow.on('closed', () => {
-    notificationWindow = null
-  })
-
-  // Auto-close after 3.5 seconds (matches CSS animation)
-  setTimeout(() => {
-    if (notificationWindow) {
-      notificationWindow.close()
+  const opened = notificationWindow
+  notificationType = type
+  opened.on('closed', () => {
+    // A newer notification may have replaced this one already
+    if (notificationWindow === opened) {
+      notificationWindow = null
+      notificationType = null
     }
-  }, 3500)
+  })
 }
 
 async function performReplaySave() {
   try {
-    lastReplayPath = await OBSManager.getInstance().saveReplayBuffer() as string
-
-    const monitors = OBSManager.getInstance().getMonitors()
-    const settings = SettingsManager.getInstance().getAllSettings()
-
-    const activeMonitors = monitors.filter(m => {
-      if (!settings.enabledMonitors) return true
-      return settings.enabledMonitors.includes(m.index)
-    })
+    // Capture the point before saving, for the overlay's "active monitor" default
+    const activePoint = getActivePoint()
 
-    if (activeMonitors.length === 1) {
-      // Single monitor - no processing needed, original file is already correct
-      console.log("Single monitor detected/enabled. Replay saved directly (no processing needed).")
-      // Show the "Clip Saved" notification immediately
-      showNotification('saved')
-      return true
-    } else {
-      showOverlay()
-      return true
-    }
+    const replayPath = await OBSManager.getInstance().saveReplayBuffer() as string
+    await offerReplay(replayPath, activePoint)
+    return true
   } catch (err) {
     console.error('Failed to save replay:', err)
+    showErrorNotification(`Couldn't save replay: ${describeError(err)}`)
     return false
   }
 }
 
-// Direct monitor save - bypasses the overlay and saves to a specific monitor directly
-async function performDirectMonitorSave(monitorIndex: number | 'all') {
+// Let the user choose what to export from a staged replay - or, when it was recorded from a
+// single monitor, move it straight to the clips folder since it needs no processing
+async function offerReplay(replayPath: string, activePoint?: Electron.Point) {
+  // Use the layout the replay was recorded with, not the current display setup
+  const layout = OBSManager.getInstance().getReplayLayout(replayPath)
+  const activeMonitors = layout ? layout.displays : []
+
+  if (activeMonitors.length === 1) {
+    // Single monitor - no processing needed, original file is already correct
+    console.log("Single monitor detected/enabled. Replay saved directly (no processing needed).")
+    try {
+      await StagingManager.getInstance().promote(replayPath)
+    } catch (err) {
+      StagingManager.getInstance().unclaim(replayPath)
+      throw err
+    }
+    // Show the "Clip Saved" notification immediately
+    showNotification('saved')
+  } else {
+    showOverlay(replayPath, activePoint)
+  }
+}
+
+// Where the user is working right now: the centre of a focused LuminReplay window (other than the
+// overlay, which only has focus because of an earlier save), otherwise the mouse cursor
+// (other apps' windows can't be queried from Electron)
+function getActivePoint() {
+  const focused = BrowserWindow.getFocusedWindow()
+  if (focused && focused !== overlayWindow && focused.isVisible()) {
+    const bounds = focused.getBounds()
+    return { x: bounds.x + Math.round(bounds.width / 2), y: bounds.y + Math.round(bounds.height / 2) }
+  }
+  return screen.getCursorScreenPoint()
+}
+
+// Direct monitor save - bypasses the overlay and saves to a specific monitor directly.
+// 'active' saves the monitor under the cursor/focused window at the time of the save.
+async function performDirectMonitorSave(monitorKey: string | 'all' | 'active' | 'composite', options?: ExportOptions) {
+  let replayPath: string | null = null
   try {
-    const replayPath = await OBSManager.getInstance().saveReplayBuffer() as string
+    // Capture the point before saving - the cursor can move while the buffer is written
+    const activePoint = monitorKey === 'active' ? getActivePoint() : null
 
-    console.log(`Direct save triggered for monitor: ${monitorIndex}`)
+    replayPath = await OBSManager.getInstance().saveReplayBuffer() as string
 
-    // Show immediate notification that we're saving (skipping processing state)
-    showNotification('saved')
+    console.log(`Direct save triggered for monitor: ${monitorKey}`)
 
-    // Process the replay in the background
-    OBSManager.getInstance().processReplay(replayPath, monitorIndex)
-      .then((result) => {
-        console.log('Replay processed to:', result)
-        // No second notification needed
-      })
-      .catch((e) => {
-        console.error('Error processing replay:', e)
-      })
+    let target: ReplayTarget = monitorKey
+    if (activePoint) {
+      // Map the point onto the layout the replay was recorded with
+      const layout = OBSManager.getInstance().getReplayLayout(replayPath)
+      const display = layout ? findDisplayNearestPoint(layout, activePoint) : null
+      if (!display) {
+        throw new Error('No recorded monitor found for active save')
+      }
+      console.log(`Active monitor at (${activePoint.x}, ${activePoint.y}): Monitor ${display.index + 1}`)
+      target = display.key
+    }
 
+    exportReplay(replayPath, target, options)
     return true
   } catch (err) {
     console.error('Failed to save replay for direct monitor save:', err)
+    // Saved but not processed - leave it to be picked up from the leftovers
+    if (replayPath) StagingManager.getInstance().unclaim(replayPath)
+    showErrorNotification(`Couldn't save replay: ${describeError(err)}`)
     return false
   }
 }
 
+// Exports that failed, kept (with their source file) while their notification can still retry them
+interface FailedExport {
+  replayPath: string
+  target: ReplayTarget
+  options?: ExportOptions
+  staged: boolean  // the source was in staging when it failed
+}
+const failedExports = new Map<number, FailedExport>()
+let nextFailedExportId = 1
+
+// A failed export can only be retried while its source is untouched: still there, not being worked
+// on (overlay, export), and - if it was staged - not processed or deleted from the staging panel since
+function canRetryExport(failed: FailedExport) {
+  const staging = StagingManager.getInstance()
+  return fs.existsSync(failed.replayPath) && !staging.isClaimed(failed.replayPath) &&
+    (!failed.staged || staging.isStaged(failed.replayPath))
+}
+
+function pruneFailedExports() {
+  for (const [id, failed] of failedExports) {
+    if (!canRetryExport(failed)) failedExports.delete(id)
+  }
+}
+
+// Process a saved replay in the background - the processing queue shows progress and the result.
+// On failure the original file is kept and the error notification offers a retry.
+function exportReplay(replayPath: string, target: ReplayTarget, options?: ExportOptions) {
+  StagingManager.getInstance().claim(replayPath)
+  OBSManager.getInstance().processReplay(replayPath, target, options)
+    .then((result) => {
+      console.log('Replay processed to:', result)
+    })
+    .catch((e) => {
+      // The original is still staged - offer it as a leftover alongside the retry
+      StagingManager.getInstance().unclaim(replayPath)
+      if (e instanceof JobCanceledError) {
+        console.log('Replay processing canceled:', replayPath)
+        return
+      }
+      console.error('Error processing replay:', e)
+
+      // When only some outputs failed, the retry makes just those
+      const retry = e instanceof PartialExportError ? e.retry : { target, options }
+      const id = nextFailedExportId++
+      failedExports.set(id, { replayPath, ...retry, staged: StagingManager.getInstance().isStaged(replayPath) })
+      showErrorNotification(`Couldn't export clip: ${describeError(e)}`, id)
+    })
+}
+
+function retryExport(id: number) {
+  const failed = failedExports.get(id)
+  if (!failed) return false
+  failedExports.delete(id)
+
+  if (!canRetryExport(failed)) {
+    showErrorNotification('Couldn\'t retry: the original recording was already processed or deleted')
+    return false
+  }
+
+  console.log('Retrying export:', failed.replayPath, failed.target)
+  closeNotification()
+  exportReplay(failed.replayPath, failed.target, failed.options)
+  return true
+}
+
+// Export the replay of the overlay session the choice came from
+function exportPendingReplay(sender: Electron.WebContents, target: ReplayTarget, options?: ExportOptions) {
+  const replayPath = getOverlayReplay(sender)
+  if (!replayPath) {
+    console.warn('Export requested without an overlay session, ignoring')
+    return
+  }
+
+  // Close the overlay immediately for better UX
+  closeOverlay()
+
+  exportReplay(replayPath, target, options)
+}
+
 // Toggle replay buffer on/off
 function toggleReplayBuffer(): boolean {
   const obsManager = OBSManager.getInstance()
@@ -433,6 +676,16 @@ function updateTrayMenu(bufferActive: boolean) {
         }
       },
     },
+    {
+      label: 'Clip Library',
+      click: () => {
+        if (win) {
+          win.show()
+          win.focus()
+          win.webContents.send('open-library')
+        }
+      },
+    },
     {
       label: 'Open Recordings Folder',
       click: () => {
@@ -493,6 +746,21 @@ app.whenReady().then(async () => {
   // Initialize Settings first (so IPC handlers are ready)
   SettingsManager.getInstance()
 
+  // Clip library IPC and the media protocol used to play clips in the renderer
+  LibraryManager.getInstance().registerProtocol(filePath => StagingManager.getInstance().isInsideStaging(filePath))
+
+  // Processing queue IPC (status, cancel) for the main window and notification
+  ProcessingQueue.getInstance()
+
+  // Replays left in staging by a quit, crash or closed overlay - swept before OBS writes new ones
+  const leftovers = StagingManager.getInstance().sweep()
+  StagingManager.getInstance().onChange(() => {
+    pruneFailedExports()
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('staging-update')
+    }
+  })
+
   // // Open Debug Console in production/built app
   // if (!VITE_DEV_SERVER_URL) {
   //   createDebugWindow()
@@ -532,12 +800,52 @@ app.whenReady().then(async () => {
   // Create tray icon
   createTray()
 
+  // Warn when the configured encoder can't run on this machine and another one is used.
+  // Registered before initialize so a fallback at startup is reported too.
+  let encoderFallbackShown = false
+  OBSManager.getInstance().onEncoderFallback((message) => {
+    encoderFallbackShown = true
+    showNotification('encoder-fallback', message)
+  })
+
   // Initialize OBS
   OBSManager.getInstance().initialize()
 
-  // Show notification that buffer has started
-  if (OBSManager.getInstance().isOBSAvailable()) {
-    showNotification('buffer-on')
+  // Share processing progress with the main window and keep the processing notification up
+  // while jobs run; once the queue drains, report the result
+  ProcessingQueue.getInstance().onUpdate((status) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('processing-update', status)
+    }
+
+    if (status.running > 0 || status.queued > 0) {
+      showProcessingNotification(status)
+      return
+    }
+
+    // Failures get their own notification with a retry (see exportReplay)
+    const saved = status.jobs.filter(job => job.status === 'done').length
+    const failed = status.jobs.some(job => job.status === 'failed')
+    if (saved > 0 && !failed) {
+      showNotification('saved', saved > 1 ? `${saved} clips ready to view` : undefined)
+    } else if (notificationType === 'processing') {
+      closeNotification()
+    }
+  })
+
+  // Let the user know when the capture canvas was rebuilt for a monitor change
+  OBSManager.getInstance().onDisplaysChanged((summary) => {
+    showNotification('display-changed', summary)
+  })
+
+  // Show notification that buffer has started (unless the encoder warning is already up),
+  // or point out replays from the last session that were never processed
+  if (OBSManager.getInstance().isOBSAvailable() && !encoderFallbackShown) {
+    if (leftovers.length > 0) {
+      showNotification('staging', `${leftovers.length} ${leftovers.length === 1 ? 'replay' : 'replays'} from last session - open LuminReplay to save`)
+    } else {
+      showNotification('buffer-on')
+    }
   }
 
   // Function to register all hotkeys
@@ -559,29 +867,19 @@ app.whenReady().then(async () => {
       console.log(`Main hotkey ${mainHotkey} registered successfully`)
     }
 
-    // Monitor 1 direct save hotkey
-    if (settings.monitor1Hotkey) {
-      const ret = globalShortcut.register(settings.monitor1Hotkey, async () => {
-        console.log(`${settings.monitor1Hotkey} is pressed - direct save Monitor 1`)
-        await performDirectMonitorSave(0)
-      })
-      if (!ret) {
-        console.log(`Hotkey registration failed for Monitor 1: ${settings.monitor1Hotkey}`)
-      } else {
-        console.log(`Monitor 1 hotkey ${settings.monitor1Hotkey} registered successfully`)
-      }
-    }
+    // Per-monitor direct save hotkeys, keyed by stable monitor key
+    // (resolved against the recording when saving, so reordered displays still match)
+    for (const [monitorKey, hotkey] of Object.entries(settings.monitorHotkeys || {})) {
+      if (!hotkey) continue
 
-    // Monitor 2 direct save hotkey
-    if (settings.monitor2Hotkey) {
-      const ret = globalShortcut.register(settings.monitor2Hotkey, async () => {
-        console.log(`${settings.monitor2Hotkey} is pressed - direct save Monitor 2`)
-        await performDirectMonitorSave(1)
+      const ret = globalShortcut.register(hotkey, async () => {
+        console.log(`${hotkey} is pressed - direct save Monitor ${monitorKey}`)
+        await performDirectMonitorSave(monitorKey)
       })
       if (!ret) {
-        console.log(`Hotkey registration failed for Monitor 2: ${settings.monitor2Hotkey}`)
+        console.log(`Hotkey registration failed for Monitor ${monitorKey}: ${hotkey}`)
       } else {
-        console.log(`Monitor 2 hotkey ${settings.monitor2Hotkey} registered successfully`)
+        console.log(`Monitor ${monitorKey} hotkey ${hotkey} registered successfully`)
       }
     }
 
@@ -598,6 +896,36 @@ app.whenReady().then(async () => {
       }
     }
 
+    // Active monitor direct save hotkey
+    if (settings.activeMonitorHotkey) {
+      const ret = globalShortcut.register(settings.activeMonitorHotkey, async () => {
+        console.log(`${settings.activeMonitorHotkey} is pressed - direct save Active Monitor`)
+        await performDirectMonitorSave('active')
+      })
+      if (!ret) {
+        console.log(`Hotkey registration failed for Active Monitor: ${settings.activeMonitorHotkey}`)
+      } else {
+        console.log(`Active Monitor hotkey ${settings.activeMonitorHotkey} registered successfully`)
+      }
+    }
+
+    // "Last N seconds" hotkeys - the overlay's default action on the end of the buffer, no popup
+    for (const [seconds, hotkey] of Object.entries(settings.lengthHotkeys || {})) {
+      const lastSeconds = Number(seconds)
+      if (!hotkey || !(lastSeconds > 0)) continue
+
+      const ret = globalShortcut.register(hotkey, async () => {
+        const action = SettingsManager.getInstance().getAllSettings().overlayDefaultAction
+        console.log(`${hotkey} is pressed - direct save last ${lastSeconds}s (${action})`)
+        await performDirectMonitorSave(action, { lastSeconds })
+      })
+      if (!ret) {
+        console.log(`Hotkey registration failed for Last ${lastSeconds}s: ${hotkey}`)
+      } else {
+        console.log(`Last ${lastSeconds}s hotkey ${hotkey} registered successfully`)
+      }
+    }
+
     // Buffer toggle hotkey
     if (settings.bufferToggleHotkey) {
       const ret = globalShortcut.register(settings.bufferToggleHotkey, () => {
@@ -626,6 +954,10 @@ app.whenReady().then(async () => {
     return OBSManager.getInstance().getMonitors()
   })
 
+  ipcMain.handle('get-monitor-key-status', (_event, keys: string[]) => {
+    return OBSManager.getInstance().getMonitorKeyStatus(keys)
+  })
+
   ipcMain.handle('save-replay', async () => {
     return await performReplaySave()
   })
@@ -639,48 +971,84 @@ app.whenReady().then(async () => {
     return OBSManager.getInstance().isReplayBufferRunning()
   })
 
-  ipcMain.handle('select-monitor', async (_event, index) => {
-    if (!lastReplayPath) return
-    console.log('Selected monitor:', index)
+  ipcMain.handle('select-monitor', async (event, monitorKey: string | 'all' | 'composite', options?: ExportOptions) => {
+    console.log('Selected monitor:', monitorKey, options)
+    exportPendingReplay(event.sender, monitorKey, options)
+  })
 
-    // Close the overlay immediately for better UX
-    if (overlayWindow) overlayWindow.close()
+  ipcMain.handle('select-region', async (event, region: Rect, options?: ExportOptions) => {
+    console.log('Selected region:', region, options)
+    exportPendingReplay(event.sender, { region }, options)
+  })
 
-    // Show saved notification immediately
-    showNotification('saved')
+  // Split a kept full-canvas clip into per-monitor clips again, using the layout in its sidecar.
+  // The composite stays as it is, audio tracks included.
+  ipcMain.handle('library-split', (_event, clipPath: string) => {
+    const metadata = readClipMetadata(clipPath)
+    if (!LibraryManager.getInstance().isInsideRecordings(clipPath) || !fs.existsSync(clipPath) || metadata?.source !== 'canvas') {
+      throw new Error('Not a full-canvas clip')
+    }
+    exportReplay(clipPath, 'all', { audioTracks: 'all', keepComposite: true })
+    return true
+  })
 
-    // Process the replay in the background
-    const replayPath = lastReplayPath
-    OBSManager.getInstance().processReplay(replayPath, index)
-      .then((result) => {
-        console.log('Replay processed to:', result)
-        // No second notification needed
-      })
-      .catch((e) => {
-        console.error('Error processing replay:', e)
-      })
+  ipcMain.handle('retry-export', (_event, id: number) => {
+    return retryExport(id)
+  })
+
+  // Replay waiting for a choice in the overlay, so it can be previewed and trimmed
+  ipcMain.handle('get-pending-replay', (event) => {
+    const replayPath = getOverlayReplay(event.sender)
+    if (!replayPath) return null
+    return {
+      path: replayPath,
+      url: toMediaUrl(replayPath),
+      layout: OBSManager.getInstance().getReplayLayout(replayPath),
+      queued: queuedOverlayReplays.length,
+      defaultTarget: getOverlayDefaultTarget(replayPath),
+      timeout: SettingsManager.getInstance().getAllSettings().overlayTimeout,
+    }
+  })
+
+  // Still frame of each monitor in the overlay's replay, as media URLs keyed by monitor key
+  ipcMain.handle('get-monitor-previews', async (event) => {
+    const replayPath = getOverlayReplay(event.sender)
+    const previews = replayPath ? await overlayPreviews.get(replayPath) : null
+    if (!previews) return {}
+    return Object.fromEntries(Object.entries(previews).map(([key, previewPath]) => [key, toMediaUrl(previewPath)]))
   })
 
-  ipcMain.handle('cancel-save', async () => {
+  ipcMain.handle('cancel-save', async (event) => {
     console.log('Cancel save requested')
+    const replayPath = getOverlayReplay(event.sender)
 
-    // Close overlay first
-    if (overlayWindow) {
-      overlayWindow.close()
-      // overlayWindow = null // close() triggers the 'closed' event which sets it to null
-    }
+    // Close overlay first (the next queued replay, if any, opens once it's closed)
+    closeOverlay()
 
-    // Delete the temporary file
-    if (lastReplayPath) {
+    // Delete the staged file
+    if (replayPath) {
       try {
-        if (fs.existsSync(lastReplayPath)) {
-          await fs.promises.unlink(lastReplayPath)
-          console.log('Deleted temporary replay file:', lastReplayPath)
-        }
+        await StagingManager.getInstance().discard(replayPath)
       } catch (e) {
         console.error('Error deleting temporary replay file:', e)
       }
-      lastReplayPath = null
+    }
+  })
+
+  // Process a replay left in staging (e.g. from a previous session)
+  ipcMain.handle('staging-process', async (_event, replayPath: string) => {
+    const staging = StagingManager.getInstance()
+    if (!staging.isStaged(replayPath) || !fs.existsSync(replayPath)) {
+      throw new Error('Replay not found')
+    }
+    staging.claim(replayPath)
+    try {
+      await offerReplay(replayPath)
+      return true
+    } catch (err) {
+      console.error('Failed to process staged replay:', err)
+      showErrorNotification(`Couldn't save replay: ${describeError(err)}`)
+      return false
     }
   })
 
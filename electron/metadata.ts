@@ -0,0 +1,94 @@
+import path from 'path';
+import fs from 'fs';
+import type { CanvasLayout, LayoutDisplay, Rect } from './layout';
+import type { TrimRange } from './obs';
+import type { ExportEncoding } from './export';
+
+// Bump when the sidecar shape changes in a way readers need to know about
+export const METADATA_VERSION = 1;
+
+export interface ClipMetadata {
+    version: number;
+    capturedAt: string;       // ISO timestamp of when the buffer was saved
+    bufferDuration?: number;  // seconds of replay buffer configured at capture time, absent when only its size was limited
+    source: 'canvas' | 'monitor' | 'region';
+    monitors: LayoutDisplay[];   // monitor(s) the clip contains (or overlaps, for regions)
+    canvas: CanvasLayout;        // layout the mega-canvas was recorded with
+    crop?: Rect;              // crop applied to the mega-canvas, in output pixels
+    region?: Rect;            // user-drawn region the crop came from, in desktop coordinates
+    trim?: TrimRange;         // section of the saved buffer kept, in seconds
+    export?: ExportEncoding;  // ffmpeg encoding used for the crop/trim
+    audioTracks: string[];    // what each audio track holds, in stream order (e.g. ['mixed', 'desktop', 'microphone'])
+    encoder: {
+        videoEncoder: string;
+        encoderPreset: string;
+        rateControl?: string;
+        fps: number;
+        videoBitrate: number; // kbps
+    };
+}
+
+/**
+ * Sidecar path for a clip: "Clip.mp4" -> "Clip.json"
+ */
+export function getMetadataPath(videoPath: string): string {
+    return videoPath.replace(/\.[^.\\/]+$/, '') + '.json';
+}
+
+export function writeClipMetadata(videoPath: string, metadata: ClipMetadata) {
+    try {
+        fs.writeFileSync(getMetadataPath(videoPath), JSON.stringify(metadata, null, 2));
+    } catch (error) {
+        console.error('Error writing clip metadata:', error);
+    }
+}
+
+export function readClipMetadata(videoPath: string): ClipMetadata | null {
+    try {
+        const metadataPath = getMetadataPath(videoPath);
+        if (fs.existsSync(metadataPath)) {
+            return JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+        }
+    } catch (error) {
+        console.error('Error reading clip metadata:', error);
+    }
+    return null;
+}
+
+/**
+ * Move a clip's sidecar along with a renamed/moved clip
+ */
+export async function moveClipMetadata(fromVideoPath: string, toVideoPath: string) {
+    const from = getMetadataPath(fromVideoPath);
+    if (!fs.existsSync(from)) return;
+    try {
+        await fs.promises.mkdir(path.dirname(toVideoPath), { recursive: true });
+        await moveFile(from, getMetadataPath(toVideoPath));
+    } catch (error) {
+        console.error('Error moving clip metadata:', error);
+    }
+}
+
+/**
+ * Rename a file, copying it over when the target is on another drive
+ */
+export async function moveFile(from: string, to: string) {
+    try {
+        await fs.promises.rename(from, to);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+        await fs.promises.copyFile(from, to);
+        await fs.promises.rm(from, { force: true });
+    }
+}
+
+export function deleteClipMetadata(videoPath: string) {
+    const metadataPath = getMetadataPath(videoPath);
+    try {
+        if (fs.existsSync(metadataPath)) {
+            fs.unlinkSync(metadataPath);
+        }
+    } catch (error) {
+        console.error('Error deleting clip metadata:', error);
+    }
+}
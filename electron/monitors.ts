@@ -0,0 +1,123 @@
+import type { Display } from 'electron';
+import type { Rect } from './layout';
+
+// Monitors are saved in settings by a key built from the Electron display id,
+// its label and geometry. Windows can reorder displays (driver updates, docks),
+// so array indices aren't stable; the key is matched back to a live display at runtime.
+
+export interface MonitorIdentity {
+    id: number;
+    label: string;
+    bounds: Rect;
+}
+
+export interface MonitorInfo {
+    key: string;
+    id: number;
+    label: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    scaleFactor: number;
+    index: number;  // current position in screen.getAllDisplays()
+}
+
+// Status of a saved monitor key against the displays connected right now
+export interface MonitorKeyStatus {
+    key: string;
+    currentKey: string | null;  // key of the display it resolves to, null if missing
+    label: string;
+    width: number;
+    height: number;
+}
+
+export function getMonitorKey(monitor: MonitorIdentity): string {
+    const { x, y, width, height } = monitor.bounds;
+    return `${monitor.id}|${monitor.label}|${width}x${height}|${x},${y}`;
+}
+
+export function toMonitorInfo(display: Display, index: number): MonitorInfo {
+    const label = display.label || '';
+    return {
+        key: getMonitorKey({ id: display.id, label, bounds: display.bounds }),
+        id: display.id,
+        label,
+        x: display.bounds.x,
+        y: display.bounds.y,
+        width: display.bounds.width,
+        height: display.bounds.height,
+        scaleFactor: display.scaleFactor,
+        index,
+    };
+}
+
+/**
+ * Parse a key back into the identity it was built from
+ * The label may itself contain '|', so id/size/position are taken from the ends
+ */
+export function parseMonitorKey(key: string): MonitorIdentity | null {
+    const parts = key.split('|');
+    if (parts.length < 4) return null;
+
+    const id = Number(parts[0]);
+    const size = parts[parts.length - 2].match(/^(\d+)x(\d+)$/);
+    const position = parts[parts.length - 1].match(/^(-?\d+),(-?\d+)$/);
+    if (Number.isNaN(id) || !size || !position) return null;
+
+    return {
+        id,
+        label: parts.slice(1, -2).join('|'),
+        bounds: {
+            x: Number(position[1]),
+            y: Number(position[2]),
+            width: Number(size[1]),
+            height: Number(size[2]),
+        },
+    };
+}
+
+// How closely a live display matches a saved identity. The display id is the
+// strongest signal; label + resolution identifies a panel whose id changed.
+const MIN_MATCH_SCORE = 3;
+
+function matchScore(saved: MonitorIdentity, candidate: MonitorIdentity): number {
+    let score = 0;
+    if (saved.id === candidate.id) score += 4;
+    if (saved.label === candidate.label) score += 2;
+    if (saved.bounds.width === candidate.bounds.width && saved.bounds.height === candidate.bounds.height) score += 1;
+    if (saved.bounds.x === candidate.bounds.x && saved.bounds.y === candidate.bounds.y) score += 1;
+    return score;
+}
+
+/**
+ * Resolve saved keys to live displays. Each display is claimed at most once,
+ * best matches first, so two identical panels don't resolve to the same screen.
+ */
+export function resolveMonitorKeys<T extends MonitorIdentity>(keys: string[], candidates: T[]): Map<string, T> {
+    const pairs: { key: string; candidate: T; score: number }[] = [];
+    for (const key of keys) {
+        const saved = parseMonitorKey(key);
+        if (!saved) continue;
+        for (const candidate of candidates) {
+            const score = matchScore(saved, candidate);
+            if (score >= MIN_MATCH_SCORE) {
+                pairs.push({ key, candidate, score });
+            }
+        }
+    }
+    pairs.sort((a, b) => b.score - a.score);
+
+    const resolved = new Map<string, T>();
+    const claimed = new Set<T>();
+    for (const { key, candidate } of pairs) {
+        if (resolved.has(key) || claimed.has(candidate)) continue;
+        resolved.set(key, candidate);
+        claimed.add(candidate);
+    }
+    return resolved;
+}
+
+export function resolveMonitorKey<T extends MonitorIdentity>(key: string, candidates: T[]): T | null {
+    return resolveMonitorKeys([key], candidates).get(key) ?? null;
+}
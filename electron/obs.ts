@@ -1,10 +1,18 @@
-import { app, screen, ipcMain } from 'electron';
+import { app, screen, ipcMain, Display } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import ffmpeg from 'fluent-ffmpeg';
 import { createRequire } from 'module';
 import { fileURLToPath } from 'url';
-import SettingsManager from './settings';
+import type { IInput, IListProperty } from 'obs-studio-node';
+import SettingsManager, { AudioSourceKind, ExportAudioTracks } from './settings';
+import { ClipMetadata, METADATA_VERSION, writeClipMetadata, readClipMetadata, deleteClipMetadata } from './metadata';
+import { CanvasLayout, LayoutDisplay, Rect, buildCanvasLayout, getCropRect, getRegionCropRect, isSameCanvas, rectsOverlap } from './layout';
+import { EncoderInfo, filterKnownEncoders, getEncoderInfo, getEncoderParams, normalizeEncoderId, resolveEncoder } from './encoders';
+import { getExportOutputOptions, probeDuration, probeVideoBitrate, resolveExportEncoding } from './export';
+import { JobCanceledError, ProcessingQueue } from './processing';
+import { StagingManager } from './staging';
+import { MonitorInfo, MonitorKeyStatus, parseMonitorKey, resolveMonitorKey, resolveMonitorKeys, toMonitorInfo } from './monitors';
 
 const require = createRequire(import.meta.url);
 const __filename = fileURLToPath(import.meta.url);
@@ -56,17 +64,126 @@ interface IOBSOutputSignalInfo {
     service?: string;
 }
 
+// OBS global audio output channels, matching OBS Studio's two desktop / three mic slots
+const AUDIO_CHANNELS: Record<AudioSourceKind, number[]> = {
+    desktop: [1, 2],
+    microphone: [3, 4, 5],
+};
+
+const AUDIO_INPUT_TYPES: Record<AudioSourceKind, string> = {
+    desktop: 'wasapi_output_capture',
+    microphone: 'wasapi_input_capture',
+};
+
+// Recording tracks: track 1 = everything mixed, track 2 = desktop only, track 3 = mic only.
+// Each source's mixer bitmask picks the tracks it is heard on.
+const RECORDING_TRACKS = 0b111;
+const RECORDING_TRACK_NAMES = ['mixed', 'desktop', 'microphone'];
+const AUDIO_TRACK_MIXERS: Record<AudioSourceKind, number> = {
+    desktop: 0b011,
+    microphone: 0b101,
+};
+
+export interface AudioDevice {
+    id: string;
+    name: string;
+}
+
+// Longest replay buffer OBS accepts (6 hours), used when only the size limit applies
+const MAX_REPLAY_BUFFER_SECONDS = 21600;
+
+// Wait for displays to settle before rebuilding - docking or a resolution change
+// fires a burst of added/removed/metrics events within a second or two
+const DISPLAY_CHANGE_DEBOUNCE_MS = 2000;
+
+// How long OBS gets to write a replay before the save is given up on
+const REPLAY_SAVE_TIMEOUT_MS = 10000;
+
+// After a failed split, an output this close to the expected length counts as complete and is kept
+const COMPLETE_OUTPUT_TOLERANCE_SECONDS = 1;
+
+// "Clip.mp4" -> "Clip (2).mp4" if "Clip.mp4" already exists, and so on
+function getUniquePath(filePath: string): string {
+    const ext = path.extname(filePath);
+    const base = filePath.slice(0, filePath.length - ext.length);
+    let candidate = filePath;
+    for (let n = 2; fs.existsSync(candidate); n++) {
+        candidate = `${base} (${n})${ext}`;
+    }
+    return candidate;
+}
+
+// ffmpeg timestamp "HH:MM:SS.ss" -> seconds
+function parseTimemark(timemark: string): number {
+    const seconds = timemark.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return Number.isFinite(seconds) ? seconds : 0;
+}
+
+// Section of a replay to keep, in seconds from the start of the file
+export interface TrimRange {
+    start: number;
+    end: number;
+}
+
+// What to export from a saved replay: a monitor (by key), every monitor, the whole mega-canvas, or a region drawn in the overlay
+export type ReplayTarget = string | 'all' | 'composite' | { region: Rect };
+
+// Per-export options chosen in the overlay (falling back to settings)
+export interface ExportOptions {
+    audioTracks?: ExportAudioTracks;
+    trim?: TrimRange;
+    keepComposite?: boolean;  // also keep the whole mega-canvas next to the crops
+    lastSeconds?: number;     // keep only the end of the replay, when no trim range is given
+    monitors?: string[];      // with target 'all': only these monitors (by key), e.g. a retry of the failed ones
+}
+
+/**
+ * Some outputs of an export failed. The ones that were written are kept, and
+ * retry is the export that makes only the failed ones.
+ */
+export class PartialExportError extends Error {
+    constructor(message: string, public readonly retry: { target: ReplayTarget; options: ExportOptions }) {
+        super(message);
+        this.name = 'PartialExportError';
+    }
+}
+
+// One output of a processing run: a crop of the canvas and what it shows
+interface ExportPart {
+    label: string;            // its entry in the processing queue, e.g. "Monitor 2"
+    crop: Rect;
+    suffix: string;           // appended to the file name, e.g. "monitor-1"
+    monitors: LayoutDisplay[];
+    region?: Rect;
+    composite?: boolean;      // the whole canvas, labelled as such in the metadata
+}
+
+// A saveReplayBuffer() call waiting for its 'Wrote' signal
+interface PendingReplaySave {
+    id: number;
+    resolve: (path: string) => void;
+    reject: (err: Error) => void;
+    timeout: NodeJS.Timeout | null;
+}
+
 export class OBSManager {
     private static instance: OBSManager;
     private initialized = false;
     private replayBufferRunning = false;
     private isRestarting = false;  // Flag to track intentional restart
     private pendingStopResolve: (() => void) | null = null;  // Promise resolver for stop signal
-    private pendingReplaySave: {
-        resolve: (path: string) => void;
-        reject: (err: Error) => void;
-    } | null = null;
+    private pendingReplaySaves: PendingReplaySave[] = [];  // FIFO - the first one is being written by OBS
+    private nextReplaySaveId = 1;
     private lastReplayPath: string | null = null;
+    private layout: CanvasLayout | null = null;  // Layout snapshot of the canvas currently being recorded
+    private audioInputs: IInput[] = [];  // Audio sources created by setupAudio, released on rebuild
+    private displayChangeTimer: NodeJS.Timeout | null = null;
+    private pendingDisplayChanges: string[] = [];  // Descriptions of display changes since the last rebuild
+    private displaysChangedListener: ((summary: string) => void) | null = null;
+    private availableEncoders: EncoderInfo[] = [];  // Encoders OBS reports as usable on this machine
+    private activeEncoder: EncoderInfo | null = null;  // Encoder the buffer is actually recording with
+    private lastEncoderFallback: string | null = null;  // Last fallback reported, so restarts don't repeat it
+    private encoderFallbackListener: ((message: string) => void) | null = null;
 
     private constructor() {
         this.initIPC();
@@ -92,6 +209,18 @@ export class OBSManager {
             return await this.saveReplayBuffer();
         });
 
+        ipcMain.handle('obs-get-audio-devices', () => {
+            return this.getAudioDevices();
+        });
+
+        ipcMain.handle('obs-get-encoders', () => {
+            return {
+                available: this.availableEncoders,
+                active: this.activeEncoder?.id ?? null,
+                fallback: this.lastEncoderFallback,
+            };
+        });
+
         // Handle settings change - restart replay buffer with new settings
         ipcMain.handle('obs-restart', async () => {
             console.log('Restarting OBS with new settings...');
@@ -102,8 +231,9 @@ export class OBSManager {
 
     /**
      * Restart the replay buffer with new settings
+     * Pass resumeBuffer = false to rebuild without starting a buffer the user had stopped
      */
-    public async restartWithNewSettings() {
+    public async restartWithNewSettings(resumeBuffer = true) {
         if (!this.initialized || !obs) return;
 
         this.isRestarting = true;
@@ -143,11 +273,93 @@ export class OBSManager {
         this.setupScene();
 
         // Restart replay buffer
-        this.startReplayBuffer();
+        if (resumeBuffer) {
+            this.startReplayBuffer();
+        }
 
         this.isRestarting = false;
     }
 
+    /**
+     * Called with a short description after the canvas is rebuilt for a display change
+     */
+    public onDisplaysChanged(listener: (summary: string) => void) {
+        this.displaysChangedListener = listener;
+    }
+
+    /**
+     * Called with a message when the configured encoder isn't available and another is used
+     */
+    public onEncoderFallback(listener: (message: string) => void) {
+        this.encoderFallbackListener = listener;
+    }
+
+    /**
+     * Listen for monitors being plugged in, removed or changing resolution,
+     * so the mega-canvas doesn't keep recording a stale layout
+     */
+    private watchDisplays() {
+        const describe = (display: Display) => display.label || `Display ${display.id}`;
+
+        screen.on('display-added', (_event, display) => {
+            this.queueDisplayChange(`${describe(display)} connected`);
+        });
+
+        screen.on('display-removed', (_event, display) => {
+            this.queueDisplayChange(`${describe(display)} disconnected`);
+        });
+
+        screen.on('display-metrics-changed', (_event, display, changedMetrics) => {
+            // workArea alone changes when the taskbar moves - it doesn't affect capture
+            if (!changedMetrics.some(metric => metric === 'bounds' || metric === 'scaleFactor' || metric === 'rotation')) return;
+
+            const { width, height } = display.bounds;
+            this.queueDisplayChange(`${describe(display)} changed to ${width}x${height} @ ${Math.round(display.scaleFactor * 100)}%`);
+        });
+    }
+
+    private queueDisplayChange(description: string) {
+        console.log('Display change detected:', description);
+        this.pendingDisplayChanges.push(description);
+
+        if (this.displayChangeTimer) {
+            clearTimeout(this.displayChangeTimer);
+        }
+        this.displayChangeTimer = setTimeout(() => {
+            this.displayChangeTimer = null;
+            this.applyDisplayChanges();
+        }, DISPLAY_CHANGE_DEBOUNCE_MS);
+    }
+
+    private async applyDisplayChanges() {
+        if (!this.initialized || !obs) return;
+
+        // Don't tear the buffer down in the middle of a save or another restart - try again shortly
+        if (this.isRestarting || this.pendingReplaySaves.length > 0) {
+            this.displayChangeTimer = setTimeout(() => {
+                this.displayChangeTimer = null;
+                this.applyDisplayChanges();
+            }, DISPLAY_CHANGE_DEBOUNCE_MS);
+            return;
+        }
+
+        const changes = this.pendingDisplayChanges;
+        this.pendingDisplayChanges = [];
+
+        // Changes to monitors that aren't part of the canvas (e.g. a disabled monitor) need no rebuild
+        const nextLayout = buildCanvasLayout(screen.getAllDisplays(), SettingsManager.getInstance().getAllSettings());
+        if (this.layout && isSameCanvas(this.layout, nextLayout)) {
+            console.log('Display change does not affect the capture canvas, skipping rebuild');
+            return;
+        }
+
+        console.log('Rebuilding capture canvas for display changes:', changes);
+        await this.restartWithNewSettings(this.replayBufferRunning);
+
+        const summary = changes.length === 1 ? changes[0] : `${changes.length} display changes`;
+        this.displaysChangedListener?.(summary);
+    }
+
     public initialize() {
         if (this.initialized || !obs) return;
 
@@ -208,6 +420,7 @@ export class OBSManager {
             this.setupOutput();
             this.setupScene();
             this.startReplayBuffer();
+            this.watchDisplays();
         }
     }
 
@@ -259,7 +472,8 @@ export class OBSManager {
                         if (fileName.startsWith('Replay')) {
                             const dir = path.dirname(replayPath);
                             const newFileName = fileName.replace('Replay', 'LuminReplay');
-                            const newPath = path.join(dir, newFileName);
+                            // Two saves in the same second get the same name - don't overwrite the first
+                            const newPath = getUniquePath(path.join(dir, newFileName));
                             try {
                                 fs.renameSync(replayPath, newPath);
                                 console.log('Renamed replay to:', newPath);
@@ -271,26 +485,23 @@ export class OBSManager {
 
                         this.lastReplayPath = replayPath;
 
-                        // Resolve pending save promise
-                        if (this.pendingReplaySave) {
-                            this.pendingReplaySave.resolve(replayPath);
-                            this.pendingReplaySave = null;
+                        // Record where this clip came from before anything else touches it
+                        if (this.layout) {
+                            writeClipMetadata(replayPath, this.buildClipMetadata(this.layout, this.layout.displays));
                         }
+                        StagingManager.getInstance().track(replayPath);
+
+                        // Resolve the save this file was written for
+                        this.settleReplaySave(replayPath);
                     } catch (err) {
                         console.error('Error getting last replay path:', err);
-                        if (this.pendingReplaySave) {
-                            this.pendingReplaySave.reject(new Error('Failed to get replay path'));
-                            this.pendingReplaySave = null;
-                        }
+                        this.settleReplaySave(new Error('Failed to get replay path'));
                     }
                     break;
 
                 case EOBSOutputSignal.WriteError:
                     console.error('Replay buffer write error:', signalInfo.error);
-                    if (this.pendingReplaySave) {
-                        this.pendingReplaySave.reject(new Error(signalInfo.error || 'Write error'));
-                        this.pendingReplaySave = null;
-                    }
+                    this.settleReplaySave(new Error(signalInfo.error || 'Write error'));
                     break;
             }
         }
@@ -302,88 +513,21 @@ export class OBSManager {
         // Get settings
         const settings = SettingsManager.getInstance().getAllSettings();
 
-        // Detect total screen size
-        const allDisplays = screen.getAllDisplays();
-
-        // Filter to only enabled monitors
-        const displays = allDisplays.filter((_, i) => {
-            if (!settings.enabledMonitors) return true; // All enabled if undefined
-            return settings.enabledMonitors.includes(i);
-        });
+        // Snapshot the display layout this canvas is built from. Clips recorded
+        // from now until the next setup are cropped against this snapshot.
+        const layout = buildCanvasLayout(screen.getAllDisplays(), settings);
+        this.layout = layout;
 
-        // If no monitors enabled, fall back to all
-        if (displays.length === 0) {
-            console.warn("No monitors enabled, using all displays");
-            displays.push(...allDisplays);
-        }
-
-        // Calculate the bounding box that encompasses enabled monitors (native resolution)
-        let minX = 0, minY = 0, maxX = 0, maxY = 0;
-
-        displays.forEach((d, i) => {
-            if (i === 0 || d.bounds.x < minX) minX = d.bounds.x;
-            if (i === 0 || d.bounds.y < minY) minY = d.bounds.y;
-            if (i === 0 || d.bounds.x + d.bounds.width > maxX) maxX = d.bounds.x + d.bounds.width;
-            if (i === 0 || d.bounds.y + d.bounds.height > maxY) maxY = d.bounds.y + d.bounds.height;
-        });
-
-        const nativeWidth = maxX - minX;
-        const nativeHeight = maxY - minY;
-
-        // Helper function to calculate resolution from preset
-        // For presets, we scale proportionally based on height to maintain aspect ratio
-        // This is important for multi-monitor mega-canvas setups (e.g., 3840x1080)
-        const getResolutionFromPreset = (
-            preset: string,
-            customRes: { width: number; height: number } | undefined,
-            nativeW: number,
-            nativeH: number
-        ): { width: number; height: number } => {
-            switch (preset) {
-                case '1080p': {
-                    // Scale proportionally to 1080 height
-                    const scale = 1080 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 1080 };
-                }
-                case '720p': {
-                    // Scale proportionally to 720 height
-                    const scale = 720 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 720 };
-                }
-                case '480p': {
-                    // Scale proportionally to 480 height
-                    const scale = 480 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 480 };
-                }
-                case 'custom':
-                    return customRes || { width: 1920, height: 1080 };
-                case 'native':
-                default:
-                    return { width: nativeW, height: nativeH };
-            }
-        };
-
-        // Calculate capture (base) resolution
-        const captureRes = getResolutionFromPreset(
-            settings.captureResolution,
-            settings.customCaptureResolution,
-            nativeWidth,
-            nativeHeight
-        );
-
-        // Calculate output resolution
-        const outputRes = getResolutionFromPreset(
-            settings.outputResolution,
-            settings.customOutputResolution,
-            nativeWidth,
-            nativeHeight
-        );
+        const nativeWidth = layout.bounds.width;
+        const nativeHeight = layout.bounds.height;
+        const captureRes = { width: layout.captureWidth, height: layout.captureHeight };
+        const outputRes = { width: layout.outputWidth, height: layout.outputHeight };
 
         console.log(`Configuring OBS Video:`);
         console.log(`  Native: ${nativeWidth}x${nativeHeight}`);
         console.log(`  Capture (Base): ${captureRes.width}x${captureRes.height} (${settings.captureResolution})`);
         console.log(`  Output: ${outputRes.width}x${outputRes.height} (${settings.outputResolution})`);
-        console.log(`  FPS: ${settings.fps} (${displays.length} monitor(s))`);
+        console.log(`  FPS: ${settings.fps} (${layout.displays.length} monitor(s))`);
 
         try {
             // Get current video settings using the correct API
@@ -445,6 +589,7 @@ export class OBSManager {
         console.log("Configuring output settings...");
         console.log(`  - Replay Buffer Duration: ${settings.replayBufferDuration}s`);
         console.log(`  - Replay Buffer Max Size: ${settings.replayBufferMaxSize}MB`);
+        console.log(`  - Replay Buffer Limit Mode: ${settings.replayBufferLimitMode}`);
         console.log(`  - Video Bitrate: ${settings.videoBitrate} kbps (${(settings.videoBitrate / 1000).toFixed(1)} Mbps)`);
         console.log(`  - Recording Format: ${settings.recordingFormat}`);
         console.log(`  - Recording Path: ${settings.recordingPath}`);
@@ -483,7 +628,9 @@ export class OBSManager {
             if (!fs.existsSync(recordingPath)) {
                 fs.mkdirSync(recordingPath, { recursive: true });
             }
-            updateSetting(advancedSettings, 'RecFilePath', recordingPath);
+            // Replays are written to the staging folder and only reach the clips folder once processed
+            const stagingPath = StagingManager.getInstance().ensureStagingDir();
+            updateSetting(advancedSettings, 'RecFilePath', stagingPath);
 
             // Set recording format from settings
             updateSetting(advancedSettings, 'RecFormat', settings.recordingFormat);
@@ -491,17 +638,20 @@ export class OBSManager {
             // Set recording type to Standard (not FFmpeg)
             updateSetting(advancedSettings, 'RecType', 'Standard');
 
-            // Step 3: Set the encoder - IMPORTANT: use correct name for Advanced mode
-            // 'jim_nvenc_h264' (Simple mode) -> 'jim_nvenc' (Advanced mode)
-            // 'x264' (Simple mode) -> 'obs_x264' (Advanced mode)
-            let advancedEncoder = settings.videoEncoder;
-            if (settings.videoEncoder === 'jim_nvenc_h264') {
-                advancedEncoder = 'jim_nvenc';
-            } else if (settings.videoEncoder === 'x264') {
-                advancedEncoder = 'obs_x264';
-            }
+            // Record mixed, desktop-only and mic-only audio as separate tracks
+            updateSetting(advancedSettings, 'RecTracks', RECORDING_TRACKS);
+
+            // Step 3: Set the encoder - only ones OBS reports as usable, falling back
+            // NVENC -> AMF -> QSV -> x264 if the configured one isn't available here
+            this.availableEncoders = this.detectEncoders(advancedSettings);
+            console.log(`  - Available encoders: ${this.availableEncoders.map(e => e.id).join(', ') || '(unknown)'}`);
 
-            console.log(`  - Setting encoder: ${advancedEncoder} (from ${settings.videoEncoder})`);
+            const encoder = resolveEncoder(settings.videoEncoder, this.availableEncoders);
+            this.activeEncoder = encoder;
+            this.reportEncoderFallback(settings.videoEncoder, encoder);
+
+            const advancedEncoder = encoder?.id ?? normalizeEncoderId(settings.videoEncoder);
+            console.log(`  - Setting encoder: ${advancedEncoder} (configured: ${settings.videoEncoder})`);
             updateSetting(advancedSettings, 'RecEncoder', advancedEncoder);
 
             // Step 4: Save to register encoder change
@@ -523,58 +673,32 @@ export class OBSManager {
             }
             console.log("=== END ===");
 
-            // Step 6: Now set encoder-specific settings (these only appear after encoder is set)
-            // Use CQP (Constant Quality) instead of CBR for lower GPU usage
-            // CQP is more efficient as it doesn't force constant bitrate
-            console.log(`  - Setting rate control to CQP for efficiency`);
-            updateSetting(advancedSettings, 'Recrate_control', 'CQP');
-
-            // CQP quality value based on encoderPreset
-            // Lower = better quality, higher file size
-            const cqpValues = {
-                'performance': 23,  // Lighter encoding, smaller files
-                'balanced': 21,     // Good balance
-                'quality': 18       // Best quality, larger files
-            };
-            const cqp = cqpValues[settings.encoderPreset] || 21;
-            console.log(`  - Setting CQP to ${cqp} (preset: ${settings.encoderPreset})`);
-            updateSetting(advancedSettings, 'Reccqp', cqp);
-
-            // Set max bitrate as a ceiling (for VBR-like behavior within CQP)
-            updateSetting(advancedSettings, 'Recmax_bitrate', settings.videoBitrate);
-
-            // NVENC-specific optimizations based on encoderPreset:
-            // Preset: p1 (fastest/lowest GPU) to p7 (slowest/best quality)
-            const presetMap = {
-                'performance': 'p1',  // Fastest, lowest GPU usage (like ShadowPlay)
-                'balanced': 'p4',     // Middle ground
-                'quality': 'p7'       // Best quality, highest GPU usage
-            };
-            const nvencPreset = presetMap[settings.encoderPreset] || 'p1';
-            console.log(`  - Setting NVENC preset to ${nvencPreset}`);
-            updateSetting(advancedSettings, 'Recpreset', nvencPreset);
-
-            // Tune settings based on preset - performance mode disables everything for minimum GPU
-            if (settings.encoderPreset === 'performance') {
-                updateSetting(advancedSettings, 'Reclookahead', false);  // Disable lookahead
-                updateSetting(advancedSettings, 'Recpsycho_aq', false);  // Disable psycho-visual tuning
-                updateSetting(advancedSettings, 'Recbframes', 0);        // No B-frames (lower latency)
-            } else if (settings.encoderPreset === 'balanced') {
-                updateSetting(advancedSettings, 'Reclookahead', false);
-                updateSetting(advancedSettings, 'Recpsycho_aq', true);   // Enable AQ for better quality
-                updateSetting(advancedSettings, 'Recbframes', 0);
-            } else {
-                // Quality mode - enable all quality features
-                updateSetting(advancedSettings, 'Reclookahead', true);
-                updateSetting(advancedSettings, 'Recpsycho_aq', true);
-                updateSetting(advancedSettings, 'Recbframes', 2);
+            // Step 6: Now set encoder-specific settings (these only appear after encoder is set),
+            // translated to each encoder's own parameter names and values.
+            const family = encoder?.family ?? getEncoderInfo(settings.videoEncoder)?.family ?? 'x264';
+            const encoderParams = getEncoderParams(family, {
+                preset: settings.encoderPreset,
+                rateControl: settings.rateControl,
+                quality: settings.targetQuality,
+                bitrate: settings.videoBitrate,
+                keyframeInterval: settings.keyframeInterval,
+                profile: settings.h264Profile,
+            });
+            console.log(`  - Applying ${family} profile for preset: ${settings.encoderPreset} (${settings.rateControl})`);
+            for (const [name, value] of Object.entries(encoderParams)) {
+                updateSetting(advancedSettings, `Rec${name}`, value);
             }
 
             // Enable replay buffer
             updateSetting(advancedSettings, 'RecRB', true);
 
-            // Set replay buffer duration from settings
-            updateSetting(advancedSettings, 'RecRBTime', settings.replayBufferDuration);
+            // Apply buffer limits. OBS trims by both time and size; a size of 0 disables
+            // the size limit, and size-only mode uses OBS's maximum duration instead.
+            const limitMode = settings.replayBufferLimitMode || 'both';
+            const rbTime = limitMode === 'size' ? MAX_REPLAY_BUFFER_SECONDS : settings.replayBufferDuration;
+            const rbSize = limitMode === 'time' ? 0 : settings.replayBufferMaxSize;
+            updateSetting(advancedSettings, 'RecRBTime', rbTime);
+            updateSetting(advancedSettings, 'RecRBSize', rbSize);
 
             // Step 7: Save final settings
             obs.NodeObs.OBS_settings_saveSettings('Output', advancedSettings);
@@ -585,6 +709,52 @@ export class OBSManager {
         }
     }
 
+    /**
+     * Encoders listed for RecEncoder in Advanced output mode - OBS only lists ones that
+     * can actually run here. Falls back to every registered encoder type.
+     */
+    private detectEncoders(advancedSettings: { parameters?: { name: string; values?: unknown[] }[] }[]): EncoderInfo[] {
+        const reported: string[] = [];
+
+        for (const category of advancedSettings) {
+            const param = category.parameters?.find(p => p.name === 'RecEncoder');
+            if (!param?.values) continue;
+            for (const value of param.values) {
+                // Each entry is { "Display Name": "encoder_id" }
+                if (typeof value === 'string') {
+                    reported.push(value);
+                } else if (value && typeof value === 'object') {
+                    reported.push(...Object.values(value).filter((v): v is string => typeof v === 'string'));
+                }
+            }
+        }
+
+        if (reported.length === 0) {
+            try {
+                reported.push(...obs.VideoEncoderFactory.types());
+            } catch (error) {
+                console.error('Error listing video encoder types:', error);
+            }
+        }
+
+        return filterKnownEncoders(reported);
+    }
+
+    private reportEncoderFallback(configuredId: string, encoder: EncoderInfo | null) {
+        const configured = getEncoderInfo(configuredId);
+        if (!encoder || (configured && configured.family === encoder.family)) {
+            this.lastEncoderFallback = null;
+            return;
+        }
+
+        const message = `${configured?.name ?? configuredId} unavailable, using ${encoder.name}`;
+        console.warn(`  - Encoder fallback: ${message}`);
+        if (message !== this.lastEncoderFallback) {
+            this.lastEncoderFallback = message;
+            this.encoderFallbackListener?.(message);
+        }
+    }
+
     private setupScene() {
         if (!this.initialized || !obs) return;
 
@@ -596,87 +766,22 @@ export class OBSManager {
             const scene = obs.SceneFactory.create(sceneName);
             console.log(`Created scene: ${sceneName}`);
 
-            // Get all displays
-            const allDisplays = screen.getAllDisplays();
+            // Use the layout snapshot taken by setupVideo so the scene matches the canvas
+            const layout = this.layout ?? buildCanvasLayout(screen.getAllDisplays(), SettingsManager.getInstance().getAllSettings());
+            this.layout = layout;
 
-            // Get settings for enabled monitors
-            const settings = SettingsManager.getInstance().getAllSettings();
-            const enabledMonitors = settings.enabledMonitors;
-
-            // Filter to only enabled monitors
-            const displays = allDisplays.filter((_, i) => {
-                if (!enabledMonitors) return true;
-                return enabledMonitors.includes(i);
-            });
-
-            if (displays.length === 0) {
-                console.warn("No monitors enabled, using all displays for scene");
-                displays.push(...allDisplays);
-            }
-
-            // Calculate native bounding box
-            let minX = 0, minY = 0, maxX = 0, maxY = 0;
-            displays.forEach((d, i) => {
-                if (i === 0 || d.bounds.x < minX) minX = d.bounds.x;
-                if (i === 0 || d.bounds.y < minY) minY = d.bounds.y;
-                if (i === 0 || d.bounds.x + d.bounds.width > maxX) maxX = d.bounds.x + d.bounds.width;
-                if (i === 0 || d.bounds.y + d.bounds.height > maxY) maxY = d.bounds.y + d.bounds.height;
-            });
-
-            const nativeWidth = maxX - minX;
-            const nativeHeight = maxY - minY;
-
-            // Helper function to get resolution from preset (same as in setupVideo)
-            const getResolutionFromPreset = (
-                preset: string,
-                customRes: { width: number; height: number } | undefined,
-                nativeW: number,
-                nativeH: number
-            ): { width: number; height: number } => {
-                switch (preset) {
-                    case '1080p': {
-                        const scale = 1080 / nativeH;
-                        return { width: Math.round(nativeW * scale), height: 1080 };
-                    }
-                    case '720p': {
-                        const scale = 720 / nativeH;
-                        return { width: Math.round(nativeW * scale), height: 720 };
-                    }
-                    case '480p': {
-                        const scale = 480 / nativeH;
-                        return { width: Math.round(nativeW * scale), height: 480 };
-                    }
-                    case 'custom':
-                        return customRes || { width: 1920, height: 1080 };
-                    case 'native':
-                    default:
-                        return { width: nativeW, height: nativeH };
-                }
-            };
-
-            // Calculate capture resolution and scale factor
-            const captureRes = getResolutionFromPreset(
-                settings.captureResolution,
-                settings.customCaptureResolution,
-                nativeWidth,
-                nativeHeight
-            );
+            const { x: minX, y: minY, width: nativeWidth, height: nativeHeight } = layout.bounds;
 
             // Calculate scale factor from native to capture resolution
-            const scaleX = captureRes.width / nativeWidth;
-            const scaleY = captureRes.height / nativeHeight;
+            const scaleX = layout.captureWidth / nativeWidth;
+            const scaleY = layout.captureHeight / nativeHeight;
 
-            console.log(`Scene scaling: Native ${nativeWidth}x${nativeHeight} -> Capture ${captureRes.width}x${captureRes.height}`);
+            console.log(`Scene scaling: Native ${nativeWidth}x${nativeHeight} -> Capture ${layout.captureWidth}x${layout.captureHeight}`);
             console.log(`  Scale factors: ${scaleX.toFixed(3)}x${scaleY.toFixed(3)}`);
 
             // Add each enabled display to the scene
-            allDisplays.forEach((display, index) => {
-                // Skip if monitor is not enabled
-                if (enabledMonitors && !enabledMonitors.includes(index)) {
-                    console.log(`Skipping Monitor-${index} (disabled in settings)`);
-                    return;
-                }
-
+            layout.displays.forEach((display) => {
+                const index = display.index;
                 const sourceName = `Monitor-${index}`;
                 console.log(`Creating source ${sourceName} for display ${display.id}`);
 
@@ -735,37 +840,8 @@ export class OBSManager {
                 }
             });
 
-            // Add desktop audio capture
-            try {
-                const daName = 'Desktop Audio';
-                let desktopAudio = obs.InputFactory.create('wasapi_output_capture', daName, { device_id: 'default' });
-                if (!desktopAudio) {
-                    try { desktopAudio = obs.InputFactory.fromName(daName); } catch (e) { }
-                }
-
-                if (desktopAudio) {
-                    obs.Global.setOutputSource(1, desktopAudio);
-                    console.log("Added desktop audio capture");
-                }
-            } catch (audioError) {
-                console.error("Error adding desktop audio:", audioError);
-            }
-
-            // Add microphone capture
-            try {
-                const micName = 'Microphone';
-                let micAudio = obs.InputFactory.create('wasapi_input_capture', micName, { device_id: 'default' });
-                if (!micAudio) {
-                    try { micAudio = obs.InputFactory.fromName(micName); } catch (e) { }
-                }
-
-                if (micAudio) {
-                    obs.Global.setOutputSource(3, micAudio);
-                    console.log("Added microphone capture");
-                }
-            } catch (micError) {
-                console.error("Error adding microphone:", micError);
-            }
+            // Add desktop audio and microphone capture
+            this.setupAudio();
 
             // Set this scene as the active scene
             obs.Global.setOutputSource(0, scene.source);
@@ -776,6 +852,101 @@ export class OBSManager {
         }
     }
 
+    /**
+     * Create the audio sources from settings and bind them to OBS output channels.
+     * Sources of a disabled kind are not created and their channels are cleared.
+     */
+    private setupAudio() {
+        if (!this.initialized || !obs) return;
+
+        const settings = SettingsManager.getInstance().getAllSettings();
+        const enabled: Record<AudioSourceKind, boolean> = {
+            desktop: settings.captureDesktopAudio,
+            microphone: settings.captureMicrophone,
+        };
+
+        // Release sources from a previous setup so device changes take effect
+        for (const channels of Object.values(AUDIO_CHANNELS)) {
+            for (const channel of channels) {
+                try { obs.Global.setOutputSource(channel, null); } catch (e) { console.warn(`Could not clear audio channel ${channel}`, e); }
+            }
+        }
+        for (const input of this.audioInputs) {
+            try { input.release(); } catch (e) { console.warn('Could not release audio source', e); }
+        }
+        this.audioInputs = [];
+
+        for (const kind of Object.keys(AUDIO_CHANNELS) as AudioSourceKind[]) {
+            if (!enabled[kind]) {
+                console.log(`Skipping ${kind} audio (disabled in settings)`);
+                continue;
+            }
+
+            const sources = (settings.audioSources || []).filter(src => src.kind === kind);
+            if (sources.length > AUDIO_CHANNELS[kind].length) {
+                console.warn(`Only ${AUDIO_CHANNELS[kind].length} ${kind} sources are supported, ignoring the rest`);
+            }
+
+            AUDIO_CHANNELS[kind].forEach((channel, i) => {
+                const config = sources[i];
+                if (!config) return;
+
+                try {
+                    const sourceName = `Audio-${config.id}`;
+                    const inputSettings = { device_id: config.deviceId || 'default' };
+
+                    let input = obs.InputFactory.create(AUDIO_INPUT_TYPES[kind], sourceName, inputSettings);
+                    if (!input) {
+                        try {
+                            input = obs.InputFactory.fromName(sourceName);
+                            input?.update(inputSettings);
+                        } catch (e) {
+                            console.warn(`Could not retrieve existing input ${sourceName}`, e);
+                        }
+                    }
+
+                    if (input) {
+                        input.volume = config.volume;
+                        input.muted = config.muted;
+                        input.audioMixers = AUDIO_TRACK_MIXERS[kind];
+                        obs.Global.setOutputSource(channel, input);
+                        this.audioInputs.push(input);
+                        console.log(`Added ${kind} audio ${sourceName} (device: ${inputSettings.device_id}, volume: ${config.volume}, muted: ${config.muted}) on channel ${channel}`);
+                    } else {
+                        console.error(`Failed to create audio source ${sourceName}`);
+                    }
+                } catch (audioError) {
+                    console.error(`Error adding ${kind} audio:`, audioError);
+                }
+            });
+        }
+    }
+
+    /**
+     * Enumerate audio devices through the WASAPI source properties
+     */
+    public getAudioDevices(): Record<AudioSourceKind, AudioDevice[]> {
+        const devices: Record<AudioSourceKind, AudioDevice[]> = { desktop: [], microphone: [] };
+        if (!this.initialized || !obs) return devices;
+
+        for (const kind of Object.keys(AUDIO_INPUT_TYPES) as AudioSourceKind[]) {
+            let probe: IInput | null = null;
+            try {
+                // A throwaway source exposes the device list in its 'device_id' property
+                probe = obs.InputFactory.create(AUDIO_INPUT_TYPES[kind], `DeviceProbe-${kind}-${Date.now()}`, {});
+                const deviceProperty = probe?.properties?.get('device_id') as IListProperty | undefined;
+                const items = deviceProperty?.details?.items || [];
+                devices[kind] = items.map(item => ({ id: String(item.value), name: item.name }));
+            } catch (error) {
+                console.error(`Error enumerating ${kind} devices:`, error);
+            } finally {
+                try { probe?.release(); } catch (e) { console.warn('Could not release device probe', e); }
+            }
+        }
+
+        return devices;
+    }
+
     /**
      * Start the OBS replay buffer
      */
@@ -826,38 +997,62 @@ export class OBSManager {
             throw new Error("Replay buffer is not running");
         }
 
-        // Create a promise that will be resolved when we receive the 'Wrote' signal
+        // Resolved when the 'Wrote' signal for this save arrives. OBS ignores a save request while
+        // it's still writing the previous one, so saves are queued and triggered one at a time -
+        // each 'Wrote' then belongs to the first save in the queue.
         return new Promise((resolve, reject) => {
-            // Set a timeout in case the signal never comes
-            const timeout = setTimeout(() => {
-                if (this.pendingReplaySave) {
-                    this.pendingReplaySave = null;
-                    reject(new Error("Replay save timeout - no response from OBS"));
-                }
-            }, 10000); // 10 second timeout
-
-            this.pendingReplaySave = {
-                resolve: (path: string) => {
-                    clearTimeout(timeout);
-                    resolve(path);
-                },
-                reject: (err: Error) => {
-                    clearTimeout(timeout);
-                    reject(err);
-                }
-            };
+            const request: PendingReplaySave = { id: this.nextReplaySaveId++, resolve, reject, timeout: null };
+            this.pendingReplaySaves.push(request);
+            console.log(`Queued replay save #${request.id} (${this.pendingReplaySaves.length} pending)`);
 
-            try {
-                // Trigger the replay buffer save via the hotkey function
-                obs.NodeObs.OBS_service_processReplayBufferHotkey();
-            } catch (error) {
-                this.pendingReplaySave = null;
-                clearTimeout(timeout);
-                reject(error);
+            if (this.pendingReplaySaves.length === 1) {
+                this.triggerNextReplaySave();
             }
         });
     }
 
+    // Ask OBS to write the replay for the first queued save
+    private triggerNextReplaySave() {
+        const request = this.pendingReplaySaves[0];
+        if (!request) return;
+
+        if (!this.replayBufferRunning) {
+            this.settleReplaySave(new Error("Replay buffer is not running"));
+            return;
+        }
+
+        // Give up if the signal never comes
+        request.timeout = setTimeout(() => {
+            this.settleReplaySave(new Error("Replay save timeout - no response from OBS"));
+        }, REPLAY_SAVE_TIMEOUT_MS);
+
+        try {
+            // Trigger the replay buffer save via the hotkey function
+            console.log(`Writing replay save #${request.id}`);
+            obs.NodeObs.OBS_service_processReplayBufferHotkey();
+        } catch (error) {
+            this.settleReplaySave(error as Error);
+        }
+    }
+
+    // Finish the save OBS was writing, then start the next one
+    private settleReplaySave(result: string | Error) {
+        const request = this.pendingReplaySaves.shift();
+        if (!request) {
+            console.log('Replay buffer output without a pending save:', result);
+            return;
+        }
+
+        if (request.timeout) clearTimeout(request.timeout);
+        if (result instanceof Error) {
+            request.reject(result);
+        } else {
+            request.resolve(result);
+        }
+
+        this.triggerNextReplaySave();
+    }
+
     /**
      * Get the last saved replay path (if available)
      */
@@ -872,152 +1067,378 @@ export class OBSManager {
         return this.replayBufferRunning;
     }
 
-    public getMonitors() {
-        return screen.getAllDisplays().map((d, i) => ({
-            id: d.id,
-            x: d.bounds.x,
-            y: d.bounds.y,
-            width: d.bounds.width,
-            height: d.bounds.height,
-            index: i
-        }));
+    public getMonitors(): MonitorInfo[] {
+        return screen.getAllDisplays().map(toMonitorInfo);
     }
 
-    public async processReplay(filePath: string, monitorIndex: number | 'all') {
-        console.log(`Processing replay: ${filePath} for monitor ${monitorIndex}`);
+    /**
+     * Resolve saved monitor keys against the displays connected right now
+     */
+    public getMonitorKeyStatus(keys: string[]): MonitorKeyStatus[] {
+        const monitors = this.getMonitors().map(m => ({ ...m, bounds: { x: m.x, y: m.y, width: m.width, height: m.height } }));
+        const resolved = resolveMonitorKeys(keys, monitors);
+
+        return keys.map(key => {
+            const saved = parseMonitorKey(key);
+            return {
+                key,
+                currentKey: resolved.get(key)?.key ?? null,
+                label: saved?.label ?? '',
+                width: saved?.bounds.width ?? 0,
+                height: saved?.bounds.height ?? 0,
+            };
+        });
+    }
+
+    /**
+     * Build the sidecar metadata for a clip containing the given monitors
+     */
+    private buildClipMetadata(layout: CanvasLayout, monitors: LayoutDisplay[], crop?: ClipMetadata['crop']): ClipMetadata {
+        const settings = SettingsManager.getInstance().getAllSettings();
+
+        return {
+            version: METADATA_VERSION,
+            capturedAt: new Date().toISOString(),
+            // Only a size limit: the buffer holds however many seconds fit, not the configured duration
+            ...(settings.replayBufferLimitMode !== 'size' ? { bufferDuration: settings.replayBufferDuration } : {}),
+            source: crop ? 'monitor' : 'canvas',
+            monitors,
+            canvas: layout,
+            crop,
+            audioTracks: RECORDING_TRACK_NAMES,
+            encoder: {
+                videoEncoder: this.activeEncoder?.id ?? settings.videoEncoder,
+                encoderPreset: settings.encoderPreset,
+                rateControl: settings.rateControl,
+                fps: settings.fps,
+                videoBitrate: settings.videoBitrate,
+            },
+        };
+    }
+
+    /**
+     * Get the canvas layout a saved replay was recorded with
+     * Falls back to the current snapshot for files without a sidecar
+     */
+    public getReplayLayout(filePath: string): CanvasLayout | null {
+        return readClipMetadata(filePath)?.canvas ?? this.layout;
+    }
+
+    public async processReplay(filePath: string, target: ReplayTarget, options: ExportOptions = {}) {
+        console.log(`Processing replay: ${filePath} for`, target);
+
+        const settings = SettingsManager.getInstance().getAllSettings();
+        const audioTracks = options.audioTracks || settings.exportAudioTracks || 'all';
+        let trim = options.trim;
+        if (trim && !(trim.start >= 0 && trim.end > trim.start)) {
+            throw new Error(`Invalid trim range: ${trim.start}-${trim.end}`);
+        }
 
         // Verify file exists
         if (!fs.existsSync(filePath)) {
             throw new Error(`Replay file not found: ${filePath}`);
         }
 
-        const displays = this.getMonitors();
-        const settings = SettingsManager.getInstance().getAllSettings();
+        // "Last N seconds" saves cut the tail off the buffer - a replay that's already
+        // shorter is kept whole
+        if (!trim && options.lastSeconds) {
+            const duration = await probeDuration(filePath);
+            if (duration === null) {
+                throw new Error('Could not read replay length');
+            }
+            if (duration > options.lastSeconds) {
+                trim = { start: duration - options.lastSeconds, end: duration };
+            }
+        }
 
-        // Calculate native bounding box
-        let minX = 0, minY = 0, maxX = 0, maxY = 0;
-        displays.forEach((d, i) => {
-            if (i === 0 || d.x < minX) minX = d.x;
-            if (i === 0 || d.y < minY) minY = d.y;
-            if (i === 0 || d.x + d.width > maxX) maxX = d.x + d.width;
-            if (i === 0 || d.y + d.height > maxY) maxY = d.y + d.height;
-        });
+        // Crop against the layout the file was recorded with, not the current one -
+        // displays or resolution settings may have changed since the buffer started
+        const sourceMetadata = readClipMetadata(filePath);
+        const layout = sourceMetadata?.canvas ?? this.layout;
+        if (!layout) {
+            throw new Error("No canvas layout available for replay");
+        }
 
-        const nativeWidth = maxX - minX;
-        const nativeHeight = maxY - minY;
-
-        // Helper function to get resolution from preset (same as in setupVideo)
-        const getResolutionFromPreset = (
-            preset: string,
-            customRes: { width: number; height: number } | undefined,
-            nativeW: number,
-            nativeH: number
-        ): { width: number; height: number } => {
-            switch (preset) {
-                case '1080p': {
-                    const scale = 1080 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 1080 };
-                }
-                case '720p': {
-                    const scale = 720 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 720 };
-                }
-                case '480p': {
-                    const scale = 480 / nativeH;
-                    return { width: Math.round(nativeW * scale), height: 480 };
-                }
-                case 'custom':
-                    return customRes || { width: 1920, height: 1080 };
-                case 'native':
-                default:
-                    return { width: nativeW, height: nativeH };
+        console.log(`Processing with recorded layout (${layout.capturedAt}):`);
+        console.log(`  Native: ${layout.bounds.width}x${layout.bounds.height}`);
+        console.log(`  Output: ${layout.outputWidth}x${layout.outputHeight}`);
+
+        const container = settings.recordingFormat;
+        const encoding = resolveExportEncoding({
+            videoCodec: settings.exportVideoCodec,
+            preset: settings.exportPreset,
+            crf: settings.exportCrf,
+            audioCodec: settings.exportAudioCodec,
+            audioBitrate: settings.exportAudioBitrate,
+            matchSourceBitrate: settings.exportMatchSourceBitrate,
+        }, container);
+        const sourceBitrate = encoding.matchSourceBitrate ? await probeVideoBitrate(filePath) : null;
+        console.log(`Export encoding: ${encoding.videoCodec} (${encoding.preset}), ` +
+            (sourceBitrate ? `matching ${Math.round(sourceBitrate)} kbps source` : `CRF ${encoding.crf}`) +
+            `, audio ${encoding.audioCodec}, ${container.toUpperCase()}`);
+
+        const canvasArea = layout.outputWidth * layout.outputHeight;
+
+        // Crop each part (in output pixels) to a new file named "<original>-<suffix>.<recordingFormat>".
+        // All parts come from a single ffmpeg run: the canvas is decoded once and split into one crop
+        // branch per output. Each part still has its own queue entry and result - outputs that were
+        // written are kept even when another part fails. Resolves with a path or an Error per part.
+        const processParts = async (parts: ExportPart[]): Promise<(string | Error)[]> => {
+            // Output filename: .staging/Replay 2024...mkv -> Replay 2024...-monitor-1.mp4 in the clips folder
+            const baseName = path.basename(filePath).replace(/\.[^.]+$/, '');
+            // Re-splitting a kept composite would otherwise overwrite the first split's files
+            const outputs = parts.map(part => getUniquePath(path.join(settings.recordingPath, `${baseName}-${part.suffix}.${container}`)));
+
+            for (const { crop, suffix } of parts) {
+                console.log(`Cropping ${suffix}: ${crop.width}x${crop.height} at (${crop.x}, ${crop.y})`);
+            }
+            if (trim) {
+                console.log(`Trimming to ${trim.start.toFixed(2)}s - ${trim.end.toFixed(2)}s`);
             }
-        };
-
-        // Get the output resolution that OBS used when recording
-        const outputRes = getResolutionFromPreset(
-            settings.outputResolution,
-            settings.customOutputResolution,
-            nativeWidth,
-            nativeHeight
-        );
 
-        // Calculate scale factor from native to output resolution
-        const scaleX = outputRes.width / nativeWidth;
-        const scaleY = outputRes.height / nativeHeight;
+            const jobParts = parts.map((part, i) => ({ label: part.label, fileName: path.basename(outputs[i]) }));
+            const settled = await Promise.allSettled(ProcessingQueue.getInstance().enqueueGroup<string>(jobParts, ({ reportProgress, onCancel }) => new Promise<(string | Error)[]>((resolve, reject) => {
+                const command = ffmpeg(filePath);
+
+                // Progress against the length being written - fluent-ffmpeg's own percent
+                // assumes the whole input, which is wrong when trimming
+                let totalSeconds = trim ? trim.end - trim.start : 0;
+                command.on('codecData', (data) => {
+                    if (!totalSeconds) totalSeconds = parseTimemark(data.duration);
+                });
+                command.on('progress', (progress) => {
+                    if (totalSeconds > 0) {
+                        reportProgress((parseTimemark(progress.timemark) / totalSeconds) * 100);
+                    } else if (progress.percent) {
+                        reportProgress(progress.percent);
+                    }
+                });
+                let canceled = false;
+                onCancel(() => {
+                    canceled = true;
+                    command.kill('SIGKILL');
+                });
+
+                // Trim in the same pass as the crop: seek the input (-ss) and stop each output after
+                // the kept length. The video is re-encoded for the crop anyway, so the cut is frame accurate.
+                if (trim) {
+                    command.seekInput(trim.start);
+                }
 
-        console.log(`Processing with resolution settings:`);
-        console.log(`  Native: ${nativeWidth}x${nativeHeight}`);
-        console.log(`  Output: ${outputRes.width}x${outputRes.height}`);
-        console.log(`  Scale: ${scaleX.toFixed(3)}x${scaleY.toFixed(3)}`);
-
-        const processOne = (index: number): Promise<string> => {
-            const monitor = displays[index];
-            if (!monitor) return Promise.reject(new Error("Monitor not found"));
-
-            // Calculate crop coordinates relative to the canvas origin, scaled to output resolution
-            const cropX = Math.round((monitor.x - minX) * scaleX);
-            const cropY = Math.round((monitor.y - minY) * scaleY);
-            const cropW = Math.round(monitor.width * scaleX);
-            const cropH = Math.round(monitor.height * scaleY);
-
-            // Output filename: Replay 2024... -> Replay 2024...-monitor-1.mp4
-            const output = filePath.replace(/(\.[^.]+)$/, `-monitor-${index + 1}$1`);
-
-            console.log(`Cropping monitor ${index + 1}: ${cropW}x${cropH} at (${cropX}, ${cropY})`);
-
-            return new Promise((resolve, reject) => {
-                ffmpeg(filePath)
-                    .videoFilters([
-                        `crop=${cropW}:${cropH}:${cropX}:${cropY}`
-                    ])
-                    .output(output)
+                // [0:v]split=N[s0][s1]... ; [s0]crop=...[v0] ; [s1]crop=...[v1] ...
+                const cropFilters = parts.map(({ crop }, i) =>
+                    `${parts.length > 1 ? `[s${i}]` : '[0:v]'}crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}[v${i}]`);
+                const filters = parts.length > 1
+                    ? [`[0:v]split=${parts.length}${parts.map((_, i) => `[s${i}]`).join('')}`, ...cropFilters]
+                    : cropFilters;
+                command.complexFilter(filters);
+
+                parts.forEach(({ crop }, i) => {
+                    // Matching the source: each crop gets its share of the canvas bitrate, by area
+                    const cropBitrate = sourceBitrate && canvasArea ? sourceBitrate * (crop.width * crop.height) / canvasArea : null;
+                    command
+                        .output(outputs[i])
+                        // Keep every audio track (or just the mixed one), encoded per the export settings
+                        .outputOptions([
+                            '-map', `[v${i}]`,
+                            '-map', audioTracks === 'mixed' ? '0:a:0?' : '0:a?',
+                            ...(trim ? ['-t', String(trim.end - trim.start)] : []),
+                            ...getExportOutputOptions(encoding, container, cropBitrate),
+                        ]);
+                });
+
+                // Label the written output's sidecar with what it shows and how it was made
+                const finishPart = (part: ExportPart, output: string): string => {
+                    console.log('Processing finished:', output);
+                    const metadata = sourceMetadata
+                        ? { ...sourceMetadata, source: 'monitor' as const, monitors: part.monitors, crop: part.crop }
+                        : this.buildClipMetadata(layout, part.monitors, part.crop);
+                    if (part.region) {
+                        metadata.source = 'region';
+                        metadata.region = part.region;
+                    }
+                    if (part.composite) {
+                        metadata.source = 'canvas';
+                        delete metadata.crop;
+                    }
+                    if (trim) {
+                        metadata.trim = trim;
+                    }
+                    metadata.export = encoding;
+                    if (audioTracks === 'mixed') {
+                        metadata.audioTracks = metadata.audioTracks.slice(0, 1);
+                    }
+                    writeClipMetadata(output, metadata);
+                    return output;
+                };
+
+                // Whether an output of a failed run was written to the end anyway
+                const isComplete = async (output: string): Promise<boolean> => {
+                    if (!totalSeconds || !fs.existsSync(output) || fs.statSync(output).size === 0) return false;
+                    const duration = await probeDuration(output);
+                    return duration !== null && duration >= totalSeconds - COMPLETE_OUTPUT_TOLERANCE_SECONDS;
+                };
+
+                command
                     .on('end', () => {
-                        console.log('Processing finished:', output);
-                        resolve(output);
+                        resolve(parts.map((part, i) => {
+                            const output = outputs[i];
+                            if (!fs.existsSync(output) || fs.statSync(output).size === 0) {
+                                console.error(`No output written for ${part.suffix}:`, output);
+                                fs.rmSync(output, { force: true });
+                                return new Error(`No output written for ${part.label}`);
+                            }
+                            return finishPart(part, output);
+                        }));
                     })
                     .on('error', (err) => {
-                        console.error('Error processing:', err);
-                        reject(err);
+                        console.error(`Error processing ${parts.map(p => p.suffix).join(', ')}:`, err);
+                        if (canceled) {
+                            for (const output of outputs) {
+                                fs.rmSync(output, { force: true });
+                            }
+                            reject(err);
+                            return;
+                        }
+
+                        // Keep the outputs that were finished; don't leave half-written files in the recordings folder
+                        Promise.all(outputs.map(isComplete)).then((complete) => {
+                            resolve(parts.map((part, i) => {
+                                if (complete[i]) return finishPart(part, outputs[i]);
+                                fs.rmSync(outputs[i], { force: true });
+                                return err;
+                            }));
+                        });
                     })
                     .run();
-            });
-        };
+            })));
 
-        if (monitorIndex === 'all') {
-            // Process ALL monitors separately
-            console.log("Splitting mega-canvas into separate monitor files...");
+            // The parts of a run are canceled together
+            const canceled = settled.find(result => result.status === 'rejected' && result.reason instanceof JobCanceledError);
+            if (canceled?.status === 'rejected') {
+                throw canceled.reason;
+            }
+            return settled.map(result => result.status === 'fulfilled'
+                ? result.value
+                : result.reason instanceof Error ? result.reason : new Error(String(result.reason)));
+        };
 
-            // Filter only enabled monitors
-            const enabledIndices = settings.enabledMonitors;
+        // Crop coordinates relative to the canvas origin, scaled to output resolution
+        const monitorPart = (monitor: LayoutDisplay): ExportPart => ({
+            label: `Monitor ${monitor.index + 1}`,
+            crop: getCropRect(layout, monitor),
+            suffix: `monitor-${monitor.index + 1}`,
+            monitors: [monitor],
+        });
 
-            let monitorsToProcess = displays.map((_, i) => i);
-            if (enabledIndices) {
-                monitorsToProcess = monitorsToProcess.filter(i => enabledIndices.includes(i));
-            }
+        // The whole canvas as one output, labelled as a composite so it can be split again later
+        const compositePart = (): ExportPart => ({
+            label: 'Full Canvas',
+            crop: { x: 0, y: 0, width: layout.outputWidth, height: layout.outputHeight },
+            suffix: 'composite',
+            monitors: layout.displays,
+            composite: true,
+        });
 
-            const results = await Promise.all(monitorsToProcess.map(i => processOne(i)));
+        // Untouched, the composite is the original file itself: it only has to leave the staging folder.
+        // Trimming or dropping audio tracks needs a re-encode like any other output.
+        const compositeUntouched = !trim && audioTracks === 'all';
+        const keepComposite = target !== 'composite' && (options.keepComposite ?? settings.keepComposite);
 
-            // Delete the original mega-canvas file after successfully splitting
+        // Delete the original mega-canvas file (and its sidecar) after successfully cropping.
+        // A failed or canceled run throws before this, keeping the original so it can be retried.
+        const deleteOriginal = () => {
             try {
                 fs.unlinkSync(filePath);
+                deleteClipMetadata(filePath);
+                StagingManager.getInstance().untrack(filePath);
                 console.log('Deleted original mega-canvas file:', filePath);
             } catch (deleteErr) {
                 console.error('Failed to delete original mega-canvas file:', deleteErr);
             }
+        };
+
+        // Throw if any part failed, naming the failed parts and carrying the export that re-runs only them.
+        // compositeOwed: the untouched composite still has to be kept once the crops are done.
+        const checkParts = (parts: ExportPart[], results: (string | Error)[], compositeOwed: boolean): string[] => {
+            const failed = parts.filter((_, i) => results[i] instanceof Error);
+            if (failed.length === 0) {
+                return results as string[];
+            }
 
+            const crops = failed.filter(part => !part.composite);
+            const retryOptions: ExportOptions = { ...options, keepComposite: compositeOwed || failed.some(part => part.composite) };
+            let retryTarget: ReplayTarget;
+            if (crops.length === 0) {
+                retryTarget = 'composite';
+            } else if (crops[0].region) {
+                retryTarget = { region: crops[0].region };
+            } else if (crops.length === 1) {
+                retryTarget = crops[0].monitors[0].key;
+            } else {
+                retryTarget = 'all';
+                retryOptions.monitors = crops.map(part => part.monitors[0].key);
+            }
+
+            const reason = results.find(result => result instanceof Error) as Error;
+            throw new PartialExportError(`${failed.map(part => part.label).join(', ')} failed: ${reason.message}`,
+                { target: retryTarget, options: retryOptions });
+        };
+
+        // Run the crops - plus the composite when it's kept - then keep or delete the original
+        const exportParts = async (parts: ExportPart[]): Promise<string[]> => {
+            const compositeOwed = keepComposite && compositeUntouched;
+            const runParts = keepComposite && !compositeUntouched ? [...parts, compositePart()] : parts;
+            const results = checkParts(runParts, await processParts(runParts), compositeOwed);
+
+            if (compositeOwed) {
+                const composite = await StagingManager.getInstance().promote(filePath);
+                console.log('Kept original mega-canvas file:', composite);
+                return [...results, composite];
+            }
+
+            deleteOriginal();
             return results;
-        } else {
-            const result = await processOne(monitorIndex as number);
+        };
 
-            // Delete the original mega-canvas file after successfully cropping
-            try {
-                fs.unlinkSync(filePath);
-                console.log('Deleted original mega-canvas file:', filePath);
-            } catch (deleteErr) {
-                console.error('Failed to delete original mega-canvas file:', deleteErr);
+        if (target === 'all') {
+            // Split ALL monitors of the recorded canvas into separate files in one pass
+            console.log("Splitting mega-canvas into separate monitor files...");
+
+            const only = options.monitors;
+            const displays = only ? layout.displays.filter(d => only.includes(d.key)) : layout.displays;
+            if (displays.length === 0) {
+                throw new Error('Monitors not found in recording');
             }
+            return await exportParts(displays.map(monitorPart));
+        } else if (typeof target === 'object') {
+            // Free-form region, which may span several monitors
+            const { region } = target;
+            const crop = getRegionCropRect(layout, region);
+            if (crop.width < 2 || crop.height < 2) {
+                throw new Error('Selected region is outside the recording');
+            }
+            const monitors = layout.displays.filter(d => rectsOverlap(d.bounds, region));
+            const [result] = await exportParts([{ label: 'Region', crop, suffix: 'region', monitors, region }]);
+            return result;
+        } else if (target === 'composite') {
+            // Only the whole mega-canvas, as recorded
+            if (compositeUntouched) {
+                return ProcessingQueue.getInstance().enqueue('Full Canvas', path.basename(filePath),
+                    () => StagingManager.getInstance().promote(filePath));
+            }
+            const parts = [compositePart()];
+            const [result] = checkParts(parts, await processParts(parts), false);
 
+            deleteOriginal();
+            return result;
+        } else {
+            // Resolve by identity rather than index - the display order may differ from the recording
+            const monitor = resolveMonitorKey(target, layout.displays);
+            if (!monitor) {
+                throw new Error(`Monitor not found in recording: ${target}`);
+            }
+            const [result] = await exportParts([monitorPart(monitor)]);
             return result;
         }
     }
@@ -1028,6 +1449,11 @@ export class OBSManager {
     public shutdown() {
         if (!this.initialized || !obs) return;
 
+        if (this.displayChangeTimer) {
+            clearTimeout(this.displayChangeTimer);
+            this.displayChangeTimer = null;
+        }
+
         try {
             console.log("Shutting down OBS...");
 
@@ -25,7 +25,12 @@ contextBridge.exposeInMainWorld('ipcRenderer', {
 
 contextBridge.exposeInMainWorld('electronAPI', {
   getMonitors: () => ipcRenderer.invoke('get-monitors'),
-  selectMonitor: (index: number | 'all') => ipcRenderer.invoke('select-monitor', index),
+  getMonitorKeyStatus: (keys: string[]) => ipcRenderer.invoke('get-monitor-key-status', keys),
+  getPendingReplay: () => ipcRenderer.invoke('get-pending-replay'),
+  getMonitorPreviews: () => ipcRenderer.invoke('get-monitor-previews'),
+  getEncoders: () => ipcRenderer.invoke('obs-get-encoders'),
+  selectMonitor: (monitorKey: string | 'all' | 'composite', options?: Record<string, unknown>) => ipcRenderer.invoke('select-monitor', monitorKey, options),
+  selectRegion: (region: Record<string, number>, options?: Record<string, unknown>) => ipcRenderer.invoke('select-region', region, options),
 
   // Settings API
   getSettings: () => ipcRenderer.invoke('settings-get-all'),
@@ -38,6 +43,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Restart OBS with new settings
   restartOBS: () => ipcRenderer.invoke('obs-restart'),
 
+  // Audio devices available to OBS
+  getAudioDevices: () => ipcRenderer.invoke('obs-get-audio-devices'),
+
   // Save Replay
   saveReplay: () => ipcRenderer.invoke('save-replay'),
 
@@ -53,4 +61,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Open External Link
   openExternal: (url: string) => ipcRenderer.invoke('open-external', url),
+
+  // Clip Library
+  listClips: () => ipcRenderer.invoke('library-list'),
+  getClipDetails: (path: string) => ipcRenderer.invoke('library-get-details', path),
+  renameClip: (path: string, newName: string) => ipcRenderer.invoke('library-rename', path, newName),
+  deleteClip: (path: string) => ipcRenderer.invoke('library-delete', path),
+  showClipInFolder: (path: string) => ipcRenderer.invoke('library-show-in-folder', path),
+  splitClip: (path: string) => ipcRenderer.invoke('library-split', path),
+  onOpenLibrary: (callback: () => void) => {
+    const listener = () => callback()
+    ipcRenderer.on('open-library', listener)
+    return () => { ipcRenderer.off('open-library', listener) }
+  },
+
+  // Processing queue
+  getProcessingStatus: () => ipcRenderer.invoke('processing-get-status'),
+  cancelProcessingJob: (id: number) => ipcRenderer.invoke('processing-cancel', id),
+  cancelAllProcessing: () => ipcRenderer.invoke('processing-cancel-all'),
+  retryExport: (id: number) => ipcRenderer.invoke('retry-export', id),
+  onProcessingUpdate: (callback: (status: unknown) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, status: unknown) => callback(status)
+    ipcRenderer.on('processing-update', listener)
+    return () => { ipcRenderer.off('processing-update', listener) }
+  },
+
+  // Unprocessed replays in staging
+  listStagedReplays: () => ipcRenderer.invoke('staging-list'),
+  processStagedReplay: (path: string) => ipcRenderer.invoke('staging-process', path),
+  deleteStagedReplay: (path: string) => ipcRenderer.invoke('staging-delete', path),
+  onStagingUpdate: (callback: () => void) => {
+    const listener = () => callback()
+    ipcRenderer.on('staging-update', listener)
+    return () => { ipcRenderer.off('staging-update', listener) }
+  },
 })
@@ -0,0 +1,81 @@
+import ffmpeg from 'fluent-ffmpeg';
+import path from 'path';
+import fs from 'fs';
+import { CanvasLayout, getCropRect } from './layout';
+
+// Still frames of each monitor in a saved replay, shown on the overlay's monitor cards so
+// identical screens can be told apart by what was on them at the time of the save.
+
+// Kept next to the replay (inside the recordings folder, so the media scheme serves them)
+export const PREVIEW_FOLDER = '.previews';
+
+const PREVIEW_WIDTH = 480;
+
+// Grab the frame this far before the end of the replay - the moment the save was requested
+const PREVIEW_SECONDS_FROM_END = 1;
+
+/**
+ * Extract one frame per monitor of the replay's layout in a single ffmpeg pass.
+ * Resolves with a preview image path per monitor key; monitors that failed are left out.
+ */
+export function extractMonitorPreviews(filePath: string, layout: CanvasLayout): Promise<Record<string, string>> {
+    const folder = path.join(path.dirname(filePath), PREVIEW_FOLDER);
+    const baseName = path.basename(filePath).replace(/\.[^.]+$/, '');
+    const displays = layout.displays;
+    const outputs = displays.map(display => path.join(folder, `${baseName}-monitor-${display.index + 1}.jpg`));
+
+    if (displays.length === 0) {
+        return Promise.resolve({});
+    }
+
+    return new Promise((resolve) => {
+        try {
+            fs.mkdirSync(folder, { recursive: true });
+        } catch (err) {
+            console.error('Error creating preview folder:', err);
+            resolve({});
+            return;
+        }
+
+        const command = ffmpeg(filePath).inputOptions(['-sseof', `-${PREVIEW_SECONDS_FROM_END}`]);
+
+        // [0:v]split=N[s0][s1]... ; [s0]crop=...,scale=...[v0] ...
+        const cropFilters = displays.map((display, i) => {
+            const crop = getCropRect(layout, display);
+            return `${displays.length > 1 ? `[s${i}]` : '[0:v]'}crop=${crop.width}:${crop.height}:${crop.x}:${crop.y},scale=${PREVIEW_WIDTH}:-2[v${i}]`;
+        });
+        command.complexFilter(displays.length > 1
+            ? [`[0:v]split=${displays.length}${displays.map((_, i) => `[s${i}]`).join('')}`, ...cropFilters]
+            : cropFilters);
+
+        outputs.forEach((output, i) => {
+            command.output(output).outputOptions(['-map', `[v${i}]`, '-frames:v', '1', '-q:v', '4']);
+        });
+
+        command
+            .on('end', () => {
+                const previews: Record<string, string> = {};
+                displays.forEach((display, i) => {
+                    if (fs.existsSync(outputs[i])) previews[display.key] = outputs[i];
+                });
+                console.log(`Extracted ${Object.keys(previews).length} monitor preview(s) for:`, filePath);
+                resolve(previews);
+            })
+            .on('error', (err) => {
+                // Previews are a nicety - the overlay falls back to plain cards
+                console.error('Error extracting monitor previews:', err);
+                removeMonitorPreviews(outputs);
+                resolve({});
+            })
+            .run();
+    });
+}
+
+/**
+ * Delete preview images once the overlay they were made for has closed
+ */
+export function removeMonitorPreviews(previewPaths: string[]) {
+    for (const previewPath of previewPaths) {
+        fs.rmSync(previewPath, { force: true });
+    }
+}
@@ -0,0 +1,263 @@
+import { ipcMain } from 'electron';
+import SettingsManager from './settings';
+
+// Queue for ffmpeg work on saved replays (crops, regions, trims).
+// Jobs run a few at a time so a multi-monitor split doesn't start every encode at once.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'canceled';
+
+export interface ProcessingJob {
+    id: number;
+    label: string;          // what's being made, e.g. "Monitor 2"
+    fileName: string;       // output file name
+    status: JobStatus;
+    percent: number;        // 0-100
+    error?: string;
+}
+
+export interface ProcessingStatus {
+    jobs: ProcessingJob[];  // current batch, including finished jobs until the queue drains
+    running: number;
+    queued: number;
+}
+
+export interface JobContext {
+    reportProgress: (percent: number) => void;
+    onCancel: (handler: () => void) => void;  // called when the user cancels a running job
+}
+
+export class JobCanceledError extends Error {
+    constructor(label: string) {
+        super(`${label} was canceled`);
+        this.name = 'JobCanceledError';
+    }
+}
+
+// What a job makes, e.g. one output of a multi-monitor split
+export interface JobPart {
+    label: string;
+    fileName: string;
+}
+
+interface QueueEntry {
+    jobs: ProcessingJob[];  // one per part - the parts of a group run as one process
+    run: (context: JobContext) => Promise<unknown[]>;  // one result per part, an Error for a part that failed
+    settlers: { resolve: (value: unknown) => void; reject: (reason: unknown) => void }[];
+    cancelHandler: (() => void) | null;
+}
+
+export class ProcessingQueue {
+    private static instance: ProcessingQueue;
+    private entries: QueueEntry[] = [];
+    private nextId = 1;
+    private updateListener: ((status: ProcessingStatus) => void) | null = null;
+
+    private constructor() {
+        this.initIPC();
+    }
+
+    public static getInstance(): ProcessingQueue {
+        if (!ProcessingQueue.instance) {
+            ProcessingQueue.instance = new ProcessingQueue();
+        }
+        return ProcessingQueue.instance;
+    }
+
+    private initIPC() {
+        ipcMain.handle('processing-get-status', () => this.getStatus());
+        ipcMain.handle('processing-cancel', (_, id: number) => this.cancel(id));
+        ipcMain.handle('processing-cancel-all', () => this.cancelAll());
+    }
+
+    /**
+     * Called whenever a job is added, progresses or finishes
+     */
+    public onUpdate(listener: (status: ProcessingStatus) => void) {
+        this.updateListener = listener;
+    }
+
+    /**
+     * Queue a job. Resolves with the job's result, or rejects with JobCanceledError if canceled.
+     */
+    public enqueue<T>(label: string, fileName: string, run: (context: JobContext) => Promise<T>): Promise<T> {
+        const [result] = this.enqueueGroup<T>([{ label, fileName }], async (context) => [await run(context)]);
+        return result;
+    }
+
+    /**
+     * Queue one process that makes several parts (e.g. a single ffmpeg run with an output per monitor).
+     * Each part is listed as its own job, but they start, progress and are canceled together.
+     * run resolves with one result per part, an Error for a part that failed; each returned promise
+     * settles with its part's result. A rejection of run fails (or cancels) every part.
+     */
+    public enqueueGroup<T>(parts: JobPart[], run: (context: JobContext) => Promise<(T | Error)[]>): Promise<T>[] {
+        const jobs = parts.map(({ label, fileName }): ProcessingJob => ({ id: this.nextId++, label, fileName, status: 'queued', percent: 0 }));
+        const settlers: QueueEntry['settlers'] = [];
+        const results = jobs.map(() => new Promise<T>((resolve, reject) => {
+            settlers.push({ resolve: resolve as (value: unknown) => void, reject });
+        }));
+
+        this.entries.push({ jobs, run, settlers, cancelHandler: null });
+        for (const job of jobs) {
+            console.log(`Queued job ${job.id}: ${job.label} (${job.fileName})`);
+        }
+        this.pump();
+        this.emit();
+        return results;
+    }
+
+    /**
+     * Cancel a job - along with the other parts of its group, which share its process
+     */
+    public cancel(id: number): boolean {
+        const entry = this.entries.find(e => e.jobs.some(job => job.id === id));
+        if (!entry) return false;
+
+        const status = this.getEntryStatus(entry);
+        if (status === 'queued') {
+            console.log(`Canceling queued job ${id}: ${this.describe(entry)}`);
+            entry.jobs.forEach((job, i) => {
+                this.finish(entry, job, 'canceled');
+                entry.settlers[i].reject(new JobCanceledError(job.label));
+            });
+            this.pump();
+            this.emit();
+            return true;
+        }
+
+        if (status === 'running') {
+            // The job rejects once its process has stopped, see run()
+            console.log(`Canceling running job ${id}: ${this.describe(entry)}`);
+            for (const job of entry.jobs) {
+                job.status = 'canceled';
+            }
+            entry.cancelHandler?.();
+            this.emit();
+            return true;
+        }
+
+        return false;
+    }
+
+    public cancelAll(): number {
+        // Queued first, so canceling a running job doesn't start the next one
+        const queued = this.entries.filter(e => this.getEntryStatus(e) === 'queued');
+        const running = this.entries.filter(e => this.getEntryStatus(e) === 'running');
+        return [...queued, ...running].filter(e => this.cancel(e.jobs[0].id)).length;
+    }
+
+    public getStatus(): ProcessingStatus {
+        const jobs = this.entries.flatMap(e => e.jobs.map(job => ({ ...job })));
+        return {
+            jobs,
+            running: jobs.filter(job => job.status === 'running').length,
+            queued: jobs.filter(job => job.status === 'queued').length,
+        };
+    }
+
+    public isBusy(): boolean {
+        return this.entries.some(e => {
+            const status = this.getEntryStatus(e);
+            return status === 'queued' || status === 'running';
+        });
+    }
+
+    // The parts of an entry share their status until they finish
+    private getEntryStatus(entry: QueueEntry): JobStatus {
+        return entry.jobs[0].status;
+    }
+
+    private describe(entry: QueueEntry): string {
+        return entry.jobs.map(job => job.label).join(', ');
+    }
+
+    private getConcurrency(): number {
+        const limit = SettingsManager.getInstance().getAllSettings().processingConcurrency;
+        return Math.max(1, Math.floor(limit) || 1);
+    }
+
+    // Start queued jobs while there's room
+    private pump() {
+        const concurrency = this.getConcurrency();
+        let running = this.entries.filter(e => this.getEntryStatus(e) === 'running').length;
+
+        for (const entry of this.entries) {
+            if (running >= concurrency) break;
+            if (this.getEntryStatus(entry) !== 'queued') continue;
+            running++;
+            this.run(entry);
+        }
+    }
+
+    private run(entry: QueueEntry) {
+        const { jobs } = entry;
+        for (const job of jobs) {
+            job.status = 'running';
+        }
+        console.log(`Starting job ${jobs[0].id}: ${this.describe(entry)}`);
+
+        const context: JobContext = {
+            reportProgress: (percent) => {
+                if (this.getEntryStatus(entry) !== 'running') return;
+                const clamped = Math.min(Math.max(percent, 0), 100);
+                // Skip sub-percent changes to keep IPC traffic down
+                if (Math.floor(clamped) === Math.floor(jobs[0].percent)) return;
+                for (const job of jobs) {
+                    job.percent = clamped;
+                }
+                this.emit();
+            },
+            onCancel: (handler) => {
+                entry.cancelHandler = handler;
+            },
+        };
+
+        entry.run(context)
+            .then((results) => {
+                // Also when a cancel arrived too late to stop the process - the outputs are complete
+                jobs.forEach((job, i) => {
+                    const result = results[i];
+                    if (result instanceof Error) {
+                        this.finish(entry, job, 'failed', result.message);
+                        entry.settlers[i].reject(result);
+                    } else {
+                        this.finish(entry, job, 'done');
+                        entry.settlers[i].resolve(result);
+                    }
+                });
+            })
+            .catch((err) => {
+                const canceled = this.getEntryStatus(entry) === 'canceled';
+                jobs.forEach((job, i) => {
+                    if (canceled) {
+                        this.finish(entry, job, 'canceled');
+                        entry.settlers[i].reject(new JobCanceledError(job.label));
+                    } else {
+                        this.finish(entry, job, 'failed', err instanceof Error ? err.message : String(err));
+                        entry.settlers[i].reject(err);
+                    }
+                });
+            })
+            .finally(() => {
+                this.pump();
+                this.emit();
+            });
+    }
+
+    private finish(entry: QueueEntry, job: ProcessingJob, status: 'done' | 'failed' | 'canceled', error?: string) {
+        job.status = status;
+        entry.cancelHandler = null;
+        if (status === 'done') job.percent = 100;
+        if (error) job.error = error;
+        console.log(`Job ${job.id} ${status}: ${job.label}${error ? ` (${error})` : ''}`);
+    }
+
+    private emit() {
+        this.updateListener?.(this.getStatus());
+
+        // Batch is over - listeners have seen the final state, start the next batch empty
+        if (!this.isBusy()) {
+            this.entries = [];
+        }
+    }
+}
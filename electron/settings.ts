@@ -1,26 +1,53 @@
-import { app, ipcMain, dialog } from 'electron';
+import { app, ipcMain, dialog, screen } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import { toMonitorInfo } from './monitors';
+import { DEFAULT_QUALITY_VALUES, EncoderPreset, H264Profile, RateControlMode, normalizeEncoderId } from './encoders';
+import { DEFAULT_EXPORT_CRF, ExportAudioCodec, ExportPreset, ExportVideoCodec } from './export';
 
 // Default settings for LuminReplay
 // Resolution preset type - 'native' uses monitor resolution, 'custom' uses customResolution values
 export type ResolutionPreset = 'native' | '1080p' | '720p' | '480p' | 'custom';
 
+// Which limit trims the replay buffer: duration, memory size, or whichever is hit first
+export type BufferLimitMode = 'time' | 'size' | 'both';
+
 export interface CustomResolution {
     width: number;
     height: number;
 }
 
+export type AudioSourceKind = 'desktop' | 'microphone';
+
+export interface AudioSourceConfig {
+    id: string;              // Stable id, used to name the OBS source
+    kind: AudioSourceKind;
+    deviceId: string;        // WASAPI device id, 'default' follows the Windows default device
+    volume: number;          // 0.0 - 1.0 multiplier
+    muted: boolean;
+}
+
+// Audio tracks kept when exporting: just the mixed track, or mixed + desktop-only + mic-only
+export type ExportAudioTracks = 'mixed' | 'all';
+
+// What the overlay saves on Enter, or by itself once its timeout runs out
+export type OverlayDefaultAction = 'all' | 'active' | 'composite';
+
 export interface AppSettings {
     // Replay Buffer Settings
     replayBufferDuration: number;  // seconds (e.g., 30, 60, 120)
     replayBufferMaxSize: number;   // MB (e.g., 512, 1024, 2048)
+    replayBufferLimitMode: BufferLimitMode;
 
     // Video Quality Settings
     videoBitrate: number;          // kbps (e.g., 6000, 12000, 30000)
-    videoEncoder: string;          // 'jim_nvenc_h264' (hardware) or 'x264' (software)
-    encoderPreset: 'performance' | 'balanced' | 'quality';  // GPU usage vs quality tradeoff
+    videoEncoder: string;          // OBS encoder id, e.g. 'jim_nvenc', 'h264_texture_amf', 'obs_qsv11', 'obs_x264'
+    encoderPreset: EncoderPreset;  // GPU/CPU usage vs quality tradeoff, mapped per encoder in encoders.ts
     fps: number;                   // frames per second (30, 60, 120)
+    rateControl: RateControlMode;  // CBR, VBR or constant quality (CQP/CRF)
+    targetQuality: number;         // CQP/CRF value for constant quality - lower = better (e.g., 18-28)
+    keyframeInterval: number;      // seconds between keyframes, 0 = encoder default
+    h264Profile: H264Profile;
 
     // Resolution Settings
     captureResolution: ResolutionPreset;     // Resolution to capture at
@@ -31,20 +58,37 @@ export interface AppSettings {
     // Output Settings
     recordingFormat: 'mp4' | 'mkv' | 'flv';
     recordingPath: string;
+    exportAudioTracks: ExportAudioTracks;  // Default audio tracks for cropped clips
+
+    // Export Encoding (ffmpeg re-encode when cropping/trimming saved replays, see export.ts)
+    exportVideoCodec: ExportVideoCodec;
+    exportPreset: ExportPreset;
+    exportCrf: number;              // lower = better; scale depends on the codec
+    exportAudioCodec: ExportAudioCodec;
+    exportAudioBitrate: number;     // kbps, when re-encoding audio
+    exportMatchSourceBitrate: boolean;  // Hold the recording's bitrate (scaled to the crop) instead of CRF
+    processingConcurrency: number;  // ffmpeg jobs run at the same time (see processing.ts)
+    keepComposite: boolean;         // Also keep the full multi-monitor recording next to the crops
+
+    // Overlay
+    overlayDefaultAction: OverlayDefaultAction;
+    overlayTimeout: number;         // seconds before the default action applies by itself, 0 = wait for a choice
 
     // Audio Settings
     captureDesktopAudio: boolean;
     captureMicrophone: boolean;
+    audioSources: AudioSourceConfig[];  // Individual devices, only used when their kind is enabled above
 
     // Hotkeys
     replayHotkey: string;           // Main hotkey that shows the monitor selection overlay
-    monitor1Hotkey?: string;        // Direct save to monitor 1 (no overlay)
-    monitor2Hotkey?: string;        // Direct save to monitor 2 (no overlay)
+    monitorHotkeys: Record<string, string>;  // Direct save to a single monitor (no overlay), keyed by monitor key
     allMonitorsHotkey?: string;     // Direct save all monitors separately (no overlay)
+    activeMonitorHotkey?: string;   // Direct save the monitor the user is working on (no overlay)
+    lengthHotkeys: Record<string, string>;  // Direct save of the last N seconds with the overlay's default action, keyed by N
     bufferToggleHotkey?: string;    // Hotkey to toggle replay buffer on/off
 
     // Monitors
-    enabledMonitors?: number[]; // indices of enabled monitors. If undefined, all are enabled.
+    enabledMonitors?: string[]; // keys of enabled monitors (see monitors.ts). If undefined, all are enabled.
 
     // System
     openAtLogin: boolean;
@@ -53,22 +97,43 @@ export interface AppSettings {
 const defaultSettings: AppSettings = {
     replayBufferDuration: 30,
     replayBufferMaxSize: 512,
+    replayBufferLimitMode: 'both',
     videoBitrate: 24000,
-    videoEncoder: 'jim_nvenc_h264', // Default to NVENC
+    videoEncoder: 'jim_nvenc',      // Default to NVENC (falls back if unavailable)
     encoderPreset: 'performance',   // Default to lowest GPU usage
     fps: 60,
+    rateControl: 'cq',
+    targetQuality: DEFAULT_QUALITY_VALUES['performance'],
+    keyframeInterval: 2,            // Lets clips be cut on 2s boundaries without re-encoding
+    h264Profile: 'high',
     captureResolution: 'native',    // Default to native monitor resolution
     outputResolution: 'native',     // Default to native monitor resolution
     customCaptureResolution: { width: 1920, height: 1080 },
     customOutputResolution: { width: 1920, height: 1080 },
     recordingFormat: 'mp4',
     recordingPath: '',  // Will be set on first run
+    exportAudioTracks: 'all',
+    exportVideoCodec: 'h264',
+    exportPreset: 'fast',
+    exportCrf: DEFAULT_EXPORT_CRF['h264'],
+    exportAudioCodec: 'copy',
+    exportAudioBitrate: 192,
+    exportMatchSourceBitrate: false,
+    processingConcurrency: 2,
+    keepComposite: false,
+    overlayDefaultAction: 'all',
+    overlayTimeout: 15,
     captureDesktopAudio: true,
     captureMicrophone: true,
+    audioSources: [
+        { id: 'desktop-1', kind: 'desktop', deviceId: 'default', volume: 1, muted: false },
+        { id: 'microphone-1', kind: 'microphone', deviceId: 'default', volume: 1, muted: false },
+    ],
     replayHotkey: 'Alt+F10',
-    monitor1Hotkey: 'Alt+F11',
-    monitor2Hotkey: 'Alt+F12',
+    monitorHotkeys: { '0': 'Alt+F11', '1': 'Alt+F12' },  // First two displays, converted to monitor keys on load
     allMonitorsHotkey: 'Alt+Delete',
+    activeMonitorHotkey: 'Alt+F8',
+    lengthHotkeys: {},
     bufferToggleHotkey: 'Alt+F9',
     enabledMonitors: undefined,
     openAtLogin: false,
@@ -86,6 +151,9 @@ class SettingsManager {
 
         // Load existing settings or use defaults
         this.settings = this.loadSettings();
+        if (this.migrateMonitorIndices()) {
+            this.saveSettings();
+        }
 
         // Set default recording path if not set
         if (!this.settings.recordingPath) {
@@ -102,7 +170,7 @@ class SettingsManager {
         try {
             if (fs.existsSync(this.settingsPath)) {
                 const data = fs.readFileSync(this.settingsPath, 'utf-8');
-                const loaded = JSON.parse(data);
+                const loaded = this.migrateSettings(JSON.parse(data));
                 // Merge with defaults to ensure all keys exist
                 return { ...defaultSettings, ...loaded };
             }
@@ -112,6 +180,75 @@ class SettingsManager {
         return { ...defaultSettings };
     }
 
+    /**
+     * Upgrade settings saved by older versions to the current shape
+     */
+    private migrateSettings(loaded: Record<string, unknown>): Partial<AppSettings> {
+        // monitor1Hotkey/monitor2Hotkey -> monitorHotkeys map
+        if ('monitor1Hotkey' in loaded || 'monitor2Hotkey' in loaded) {
+            const monitorHotkeys: Record<string, string> = {};
+            if (typeof loaded.monitor1Hotkey === 'string' && loaded.monitor1Hotkey) {
+                monitorHotkeys['0'] = loaded.monitor1Hotkey;
+            }
+            if (typeof loaded.monitor2Hotkey === 'string' && loaded.monitor2Hotkey) {
+                monitorHotkeys['1'] = loaded.monitor2Hotkey;
+            }
+            if (!loaded.monitorHotkeys) {
+                loaded.monitorHotkeys = monitorHotkeys;
+            }
+            delete loaded.monitor1Hotkey;
+            delete loaded.monitor2Hotkey;
+            console.log('Migrated legacy monitor hotkeys:', loaded.monitorHotkeys);
+        }
+
+        // Quality used to be fixed per encoder preset - keep what the user was recording at
+        if (!('targetQuality' in loaded) && typeof loaded.encoderPreset === 'string') {
+            const quality = DEFAULT_QUALITY_VALUES[loaded.encoderPreset as EncoderPreset];
+            if (quality) loaded.targetQuality = quality;
+        }
+
+        // Simple output mode encoder names -> Advanced mode ids
+        if (typeof loaded.videoEncoder === 'string' && normalizeEncoderId(loaded.videoEncoder) !== loaded.videoEncoder) {
+            loaded.videoEncoder = normalizeEncoderId(loaded.videoEncoder);
+        }
+
+        return loaded as Partial<AppSettings>;
+    }
+
+    /**
+     * Convert monitor indices (older settings and the default hotkeys) to stable monitor keys,
+     * using the display order at the time of the upgrade. Returns true if anything changed.
+     */
+    private migrateMonitorIndices(): boolean {
+        const monitors = screen.getAllDisplays().map(toMonitorInfo);
+        let changed = false;
+
+        const enabled = this.settings.enabledMonitors as (string | number)[] | undefined;
+        if (enabled?.some(entry => typeof entry === 'number')) {
+            this.settings.enabledMonitors = enabled
+                .map(entry => typeof entry === 'number' ? monitors[entry]?.key : entry)
+                .filter((key): key is string => !!key);
+            changed = true;
+        }
+
+        const hotkeys: Record<string, string> = {};
+        for (const [key, hotkey] of Object.entries(this.settings.monitorHotkeys || {})) {
+            if (/^\d+$/.test(key)) {
+                const monitor = monitors[Number(key)];
+                if (monitor) hotkeys[monitor.key] = hotkey;
+                changed = true;
+            } else {
+                hotkeys[key] = hotkey;
+            }
+        }
+        this.settings.monitorHotkeys = hotkeys;
+
+        if (changed) {
+            console.log('Migrated monitor indices to monitor keys:', this.settings.enabledMonitors, this.settings.monitorHotkeys);
+        }
+        return changed;
+    }
+
     private saveSettings(): void {
         try {
             const dir = path.dirname(this.settingsPath);
@@ -205,6 +342,7 @@ class SettingsManager {
         // Keep the recording path
         const currentPath = this.settings.recordingPath;
         this.settings = { ...defaultSettings, recordingPath: currentPath };
+        this.migrateMonitorIndices();
         this.saveSettings();
         this.applyLoginSettings();
         return { ...this.settings };
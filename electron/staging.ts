@@ -0,0 +1,321 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import SettingsManager from './settings';
+import { readClipMetadata, deleteClipMetadata, moveClipMetadata, moveFile } from './metadata';
+import { toMediaUrl } from './library';
+import { PREVIEW_FOLDER } from './previews';
+
+// Unprocessed replay buffer dumps live in a hidden folder inside the recording path until they're
+// cropped or deleted, so the clips folder (and the Clip Library) only ever shows finished clips.
+// A manifest records what's staged; anything left over from a quit or crash is swept on startup.
+// The manifest lives in userData with full paths, so replays staged before the recordings folder
+// was changed are still found (and can still be saved) afterwards.
+
+const STAGING_FOLDER = '.staging';
+const MANIFEST_FILE = 'luminreplay-staging.json';
+const MANIFEST_VERSION = 2;
+const LEGACY_MANIFEST_FILE = 'manifest.json';  // v1, inside the staging folder with bare file names
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.flv', '.mov'];
+
+interface StagingManifest {
+    version: number;
+    replays: { path: string; savedAt: string }[];  // full path, inside the staging folder it was written to
+}
+
+export interface StagedReplay {
+    path: string;
+    name: string;
+    savedAt: string;        // ISO timestamp
+    size: number;           // bytes
+    monitors: number;       // monitors in the recorded canvas, 0 if unknown
+    url: string;            // media URL for previews
+}
+
+export class StagingManager {
+    private static instance: StagingManager;
+    private claimed = new Set<string>();  // Replays an overlay, queue or export is working on
+    private outputDir: string | null = null;  // Staging folder OBS writes to - lags recordingPath until the output restarts
+    private changeListener: (() => void) | null = null;
+
+    private constructor() {
+        this.initIPC();
+    }
+
+    public static getInstance(): StagingManager {
+        if (!StagingManager.instance) {
+            StagingManager.instance = new StagingManager();
+        }
+        return StagingManager.instance;
+    }
+
+    private initIPC() {
+        ipcMain.handle('staging-list', () => this.listLeftovers());
+        ipcMain.handle('staging-delete', async (_, filePath: string) => {
+            await this.discard(filePath);
+            return true;
+        });
+    }
+
+    /**
+     * Called whenever the list of leftovers may have changed
+     */
+    public onChange(listener: () => void) {
+        this.changeListener = listener;
+    }
+
+    public getStagingDir(): string {
+        const recordingPath = SettingsManager.getInstance().getSetting('recordingPath');
+        return path.join(recordingPath, STAGING_FOLDER);
+    }
+
+    /**
+     * Create the staging folder and remember it as the one OBS writes replays to
+     */
+    public ensureStagingDir(): string {
+        const dir = this.getStagingDir();
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        this.outputDir = path.resolve(dir);
+        return dir;
+    }
+
+    /**
+     * Whether a replay is in staging - a live staging folder or one it was tracked in
+     */
+    public isStaged(filePath: string): boolean {
+        return this.isInLiveStagingDir(filePath) || this.findEntry(this.readManifest(), filePath) !== undefined;
+    }
+
+    /**
+     * Whether a file (e.g. an overlay preview) is inside any folder holding staged replays
+     */
+    public isInsideStaging(filePath: string): boolean {
+        return this.getKnownStagingDirs().some(dir => {
+            const relative = path.relative(dir, path.resolve(filePath));
+            return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+        });
+    }
+
+    /**
+     * Record a replay OBS just wrote to the staging folder. It starts out claimed by the save that
+     * requested it; whoever ends up not processing it unclaims it so it's offered as a leftover.
+     */
+    public track(filePath: string) {
+        if (!this.isInLiveStagingDir(filePath)) return;
+        this.claimed.add(filePath);
+        const manifest = this.readManifest();
+        if (!this.findEntry(manifest, filePath)) {
+            manifest.replays.push({ path: path.resolve(filePath), savedAt: new Date().toISOString() });
+            this.writeManifest(manifest);
+            console.log('Staged replay:', filePath);
+        }
+        this.notifyChange();
+    }
+
+    /**
+     * Forget a staged replay, e.g. after it was processed or deleted
+     */
+    public untrack(filePath: string) {
+        this.claimed.delete(filePath);
+        const manifest = this.readManifest();
+        const replays = manifest.replays.filter(r => r.path !== path.resolve(filePath));
+        if (replays.length !== manifest.replays.length) {
+            this.writeManifest({ ...manifest, replays });
+            console.log('Unstaged replay:', filePath);
+        }
+        this.notifyChange();
+    }
+
+    /**
+     * Mark a replay as being worked on, so it isn't offered as a leftover meanwhile
+     */
+    public claim(filePath: string) {
+        this.claimed.add(filePath);
+        this.notifyChange();
+    }
+
+    public isClaimed(filePath: string): boolean {
+        return this.claimed.has(filePath);
+    }
+
+    public unclaim(filePath: string) {
+        if (this.claimed.delete(filePath)) {
+            this.notifyChange();
+        }
+    }
+
+    /**
+     * Move a replay that needs no processing (single monitor, kept composite) into the clips folder.
+     * A file that's already there (e.g. a composite being split again) stays where it is. Replays
+     * staged under a previous recordings folder move to the current one.
+     */
+    public async promote(filePath: string): Promise<string> {
+        if (!this.isStaged(filePath)) {
+            this.unclaim(filePath);
+            return filePath;
+        }
+
+        const recordingPath = SettingsManager.getInstance().getSetting('recordingPath');
+        const target = path.join(recordingPath, path.basename(filePath));
+        await moveFile(filePath, target);
+        await moveClipMetadata(filePath, target);
+        this.untrack(filePath);
+        console.log('Moved replay to clips folder:', target);
+        return target;
+    }
+
+    /**
+     * Delete a staged replay and its sidecar
+     */
+    public async discard(filePath: string) {
+        if (!this.isStaged(filePath)) {
+            throw new Error('Not a staged replay');
+        }
+        await fs.promises.rm(filePath, { force: true });
+        deleteClipMetadata(filePath);
+        this.untrack(filePath);
+        console.log('Deleted staged replay:', filePath);
+    }
+
+    /**
+     * Reconcile the manifest with the staging folders: drop entries whose file is gone and adopt
+     * replays written but never tracked (e.g. a crash right after the save). Returns the leftovers.
+     */
+    public sweep(): StagedReplay[] {
+        this.migrateLegacyManifest();
+        const manifest = this.readManifest();
+        const replays = manifest.replays.filter(r => fs.existsSync(r.path));
+
+        for (const dir of this.getKnownStagingDirs()) {
+            if (!fs.existsSync(dir)) continue;
+
+            const files = fs.readdirSync(dir).filter(name => VIDEO_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+            for (const file of files) {
+                const filePath = path.join(dir, file);
+                if (!replays.some(r => r.path === filePath)) {
+                    replays.push({ path: filePath, savedAt: fs.statSync(filePath).mtime.toISOString() });
+                }
+            }
+
+            // Overlay previews only live as long as their overlay - anything here is from a previous session
+            fs.rmSync(path.join(dir, PREVIEW_FOLDER), { recursive: true, force: true });
+        }
+
+        if (replays.length !== manifest.replays.length || replays.some((r, i) => r.path !== manifest.replays[i]?.path)) {
+            this.writeManifest({ ...manifest, replays });
+        }
+
+        const leftovers = this.listLeftovers();
+        console.log(`Staging sweep: ${leftovers.length} unprocessed replay(s)`);
+        return leftovers;
+    }
+
+    /**
+     * Staged replays nobody is working on, oldest first
+     */
+    public listLeftovers(): StagedReplay[] {
+        const leftovers: StagedReplay[] = [];
+
+        for (const { path: filePath, savedAt } of this.readManifest().replays) {
+            if (this.claimed.has(filePath) || !fs.existsSync(filePath)) continue;
+
+            leftovers.push({
+                path: filePath,
+                name: path.basename(filePath),
+                savedAt,
+                size: fs.statSync(filePath).size,
+                monitors: readClipMetadata(filePath)?.canvas.displays.length ?? 0,
+                url: toMediaUrl(filePath),
+            });
+        }
+
+        return leftovers.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+    }
+
+    private notifyChange() {
+        this.changeListener?.();
+    }
+
+    /**
+     * The staging folders replays are being written to: the one OBS was set up with and the one for
+     * the current recordingPath, which differ after a folder change until the output restarts
+     */
+    private getLiveStagingDirs(): string[] {
+        const dirs = [path.resolve(this.getStagingDir())];
+        if (this.outputDir && !dirs.includes(this.outputDir)) dirs.push(this.outputDir);
+        return dirs;
+    }
+
+    private isInLiveStagingDir(filePath: string): boolean {
+        return this.getLiveStagingDirs().includes(path.resolve(path.dirname(filePath)));
+    }
+
+    private findEntry(manifest: StagingManifest, filePath: string) {
+        return manifest.replays.find(r => r.path === path.resolve(filePath));
+    }
+
+    /**
+     * The live staging folders plus any older one that still holds tracked replays
+     */
+    private getKnownStagingDirs(): string[] {
+        const dirs = [...this.getLiveStagingDirs(), ...this.readManifest().replays.map(r => path.dirname(r.path))];
+        return [...new Set(dirs)];
+    }
+
+    /**
+     * Carry the entries of a v1 manifest (kept in the staging folder itself) over to the
+     * userData one, then delete it so nothing stale is left in the recordings folder
+     */
+    private migrateLegacyManifest() {
+        const dir = this.getStagingDir();
+        const legacyPath = path.join(dir, LEGACY_MANIFEST_FILE);
+        if (!fs.existsSync(legacyPath)) return;
+
+        try {
+            const legacy = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+            if (Array.isArray(legacy?.replays)) {
+                const manifest = this.readManifest();
+                for (const { file, savedAt } of legacy.replays as { file: string; savedAt: string }[]) {
+                    const filePath = path.resolve(dir, file);
+                    if (!this.findEntry(manifest, filePath)) {
+                        manifest.replays.push({ path: filePath, savedAt });
+                    }
+                }
+                // Written directly so a failure keeps the old manifest around for the next start
+                fs.writeFileSync(this.getManifestPath(), JSON.stringify(manifest, null, 2));
+            }
+            fs.rmSync(legacyPath, { force: true });
+            console.log('Migrated staging manifest from:', legacyPath);
+        } catch (error) {
+            console.error('Error migrating staging manifest:', error);
+        }
+    }
+
+    private getManifestPath(): string {
+        return path.join(app.getPath('userData'), MANIFEST_FILE);
+    }
+
+    private readManifest(): StagingManifest {
+        try {
+            const manifestPath = this.getManifestPath();
+            if (fs.existsSync(manifestPath)) {
+                const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+                if (manifest?.version === MANIFEST_VERSION && Array.isArray(manifest.replays)) return manifest;
+            }
+        } catch (error) {
+            console.error('Error reading staging manifest:', error);
+        }
+        return { version: MANIFEST_VERSION, replays: [] };
+    }
+
+    private writeManifest(manifest: StagingManifest) {
+        try {
+            fs.writeFileSync(this.getManifestPath(), JSON.stringify(manifest, null, 2));
+        } catch (error) {
+            console.error('Error writing staging manifest:', error);
+        }
+    }
+}
@@ -2,11 +2,15 @@ import { useState, useEffect } from 'react'
 import luminLogo from './assets/lumin.svg'
 import Overlay from './components/Overlay'
 import Settings from './components/Settings'
+import ClipLibrary from './components/ClipLibrary'
 import ClipNotification from './components/ClipNotification'
+import ProcessingQueue from './components/ProcessingQueue'
+import StagingPanel from './components/StagingPanel'
 import './App.css'
 
 function App() {
   const [showSettings, setShowSettings] = useState(false)
+  const [showLibrary, setShowLibrary] = useState(false)
   const [bufferActive, setBufferActive] = useState(true)
 
   // Load initial buffer state
@@ -23,13 +27,34 @@ function App() {
     loadBufferStatus()
   }, [])
 
+  // Tray "Clip Library" entry opens the library view
+  useEffect(() => {
+    return window.electronAPI?.onOpenLibrary(() => {
+      setShowSettings(false)
+      setShowLibrary(true)
+    })
+  }, [])
+
   // Simple router based on query param
   const urlParams = new URLSearchParams(window.location.search);
   const showOverlay = urlParams.get('overlay') === 'true';
-  const notificationType = urlParams.get('notification') as 'recorded' | 'saved' | 'buffer-on' | 'buffer-off' | null;
+  const notificationType = urlParams.get('notification') as 'recorded' | 'saved' | 'buffer-on' | 'buffer-off' | 'display-changed' | 'encoder-fallback' | 'processing' | 'error' | 'staging' | null;
+  const notificationDetail = urlParams.get('detail') || undefined;
+  const notificationRetry = urlParams.get('retry');
+
+  // Persistent notification while clips are being processed
+  if (notificationType === 'processing') {
+    return <ProcessingQueue variant="notification" />;
+  }
 
   if (notificationType) {
-    return <ClipNotification type={notificationType} />;
+    return (
+      <ClipNotification
+        type={notificationType}
+        detail={notificationDetail}
+        retryId={notificationRetry ? Number(notificationRetry) : undefined}
+      />
+    );
   }
 
   if (showOverlay) {
@@ -40,6 +65,10 @@ function App() {
     return <Settings onBack={() => setShowSettings(false)} />;
   }
 
+  if (showLibrary) {
+    return <ClipLibrary onBack={() => setShowLibrary(false)} />;
+  }
+
   const handleToggleBuffer = async () => {
     try {
       // @ts-ignore
@@ -84,6 +113,13 @@ function App() {
             <i className="ph ph-floppy-disk" style={{ marginRight: '8px' }}></i>
             Save Replay
           </button>
+          <button
+            className="secondary-button"
+            onClick={() => setShowLibrary(true)}
+          >
+            <i className="ph ph-film-strip" style={{ marginRight: '8px' }}></i>
+            Clip Library
+          </button>
           <button
             className="secondary-button"
             onClick={() => setShowSettings(true)}
@@ -92,6 +128,9 @@ function App() {
             Settings
           </button>
         </div>
+
+        <ProcessingQueue variant="panel" />
+        <StagingPanel />
       </div>
     </div>
   )
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import './ClipLibrary.css';
+
+interface ClipInfo {
+    path: string;
+    name: string;
+    size: number;
+    createdAt: number;
+    monitor: number | null;
+    splittable: boolean;
+    url: string;
+}
+
+interface ClipDetails {
+    duration: number | null;
+    thumbnailUrl: string | null;
+}
+
+const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const formatDuration = (seconds: number | null) => {
+    if (seconds === null) return '--:--';
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const ClipCard: React.FC<{
+    clip: ClipInfo;
+    playing: boolean;
+    onPlay: () => void;
+    onRenamed: (oldPath: string, clip: ClipInfo) => void;
+    onDeleted: (path: string) => void;
+}> = ({ clip, playing, onPlay, onRenamed, onDeleted }) => {
+    const [details, setDetails] = useState<ClipDetails | null>(null);
+    const [renaming, setRenaming] = useState(false);
+    const [newName, setNewName] = useState(stripExtension(clip.name));
+
+    useEffect(() => {
+        let cancelled = false;
+        window.electronAPI?.getClipDetails(clip.path)
+            .then((d) => {
+                if (!cancelled) setDetails(d);
+            })
+            .catch((err) => console.error('Failed to load clip details:', err));
+        return () => { cancelled = true; };
+    }, [clip.path]);
+
+    const handleRename = async () => {
+        const trimmed = newName.trim();
+        if (!trimmed || trimmed === stripExtension(clip.name)) {
+            setRenaming(false);
+            return;
+        }
+        try {
+            const renamed = await window.electronAPI?.renameClip(clip.path, trimmed);
+            onRenamed(clip.path, renamed);
+            setRenaming(false);
+        } catch (err) {
+            console.error('Failed to rename clip:', err);
+            alert('Failed to rename clip. A clip with that name may already exist.');
+        }
+    };
+
+    const handleSplit = async () => {
+        try {
+            await window.electronAPI?.splitClip(clip.path);
+        } catch (err) {
+            console.error('Failed to split clip:', err);
+            alert('Failed to split clip.');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Move "${clip.name}" to the Recycle Bin?`)) return;
+        try {
+            const deleted = await window.electronAPI?.deleteClip(clip.path);
+            if (deleted) onDeleted(clip.path);
+        } catch (err) {
+            console.error('Failed to delete clip:', err);
+        }
+    };
+
+    return (
+        <div className="library-clip">
+            <div className="library-clip-media" onClick={playing ? undefined : onPlay}>
+                {playing ? (
+                    <video src={clip.url} controls autoPlay className="library-clip-video" />
+                ) : (
+                    <>
+                        {details?.thumbnailUrl ? (
+                            <img src={details.thumbnailUrl} alt="" className="library-clip-thumb" />
+                        ) : (
+                            <div className="library-clip-thumb placeholder">
+                                <i className="ph ph-film-strip"></i>
+                            </div>
+                        )}
+                        <div className="library-clip-play">
+                            <i className="ph ph-play-circle"></i>
+                        </div>
+                        <span className="library-clip-duration">{formatDuration(details?.duration ?? null)}</span>
+                    </>
+                )}
+            </div>
+
+            <div className="library-clip-info">
+                {renaming ? (
+                    <input
+                        className="library-rename-input"
+                        value={newName}
+                        autoFocus
+                        onChange={(e) => setNewName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') {
+                                setNewName(stripExtension(clip.name));
+                                setRenaming(false);
+                            }
+                        }}
+                        onBlur={handleRename}
+                    />
+                ) : (
+                    <div className="library-clip-name" title={clip.name}>{clip.name}</div>
+                )}
+                <div className="library-clip-meta">
+                    <span>{new Date(clip.createdAt).toLocaleString()}</span>
+                    <span>{clip.monitor !== null ? `Monitor ${clip.monitor}` : 'Full Canvas'}</span>
+                    <span>{formatSize(clip.size)}</span>
+                </div>
+            </div>
+
+            <div className="library-clip-actions">
+                <button title="Rename" onClick={() => setRenaming(true)}>
+                    <i className="ph ph-pencil-simple"></i>
+                </button>
+                {clip.splittable && (
+                    <button title="Split into monitors" onClick={handleSplit}>
+                        <i className="ph ph-squares-four"></i>
+                    </button>
+                )}
+                <button title="Show in folder" onClick={() => window.electronAPI?.showClipInFolder(clip.path)}>
+                    <i className="ph ph-folder-open"></i>
+                </button>
+                <button title="Delete" className="danger" onClick={handleDelete}>
+                    <i className="ph ph-trash"></i>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ClipLibrary: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+    const [clips, setClips] = useState<ClipInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [playingPath, setPlayingPath] = useState<string | null>(null);
+
+    const loadClips = async () => {
+        setLoading(true);
+        try {
+            const list = await window.electronAPI?.listClips();
+            setClips(list || []);
+        } catch (err) {
+            console.error('Failed to load clips:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadClips();
+    }, []);
+
+    const handleRenamed = (oldPath: string, clip: ClipInfo) => {
+        setClips(prev => prev.map(c => c.path === oldPath ? clip : c));
+        if (playingPath === oldPath) setPlayingPath(clip.path);
+    };
+
+    const handleDeleted = (path: string) => {
+        setClips(prev => prev.filter(c => c.path !== path));
+        if (playingPath === path) setPlayingPath(null);
+    };
+
+    return (
+        <div className="library-container">
+            <div className="library-header">
+                <button onClick={onBack} className="settings-back-btn">
+                    ← Back
+                </button>
+                <h1>Clip Library</h1>
+                <button onClick={loadClips} className="library-refresh-btn" title="Refresh">
+                    <i className="ph ph-arrow-clockwise"></i>
+                </button>
+            </div>
+
+            {loading ? (
+                <div className="library-empty">Loading clips...</div>
+            ) : clips.length === 0 ? (
+                <div className="library-empty">No clips saved yet</div>
+            ) : (
+                <div className="library-list">
+                    {clips.map(clip => (
+                        <ClipCard
+                            key={clip.path}
+                            clip={clip}
+                            playing={playingPath === clip.path}
+                            onPlay={() => setPlayingPath(clip.path)}
+                            onRenamed={handleRenamed}
+                            onDeleted={handleDeleted}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ClipLibrary;
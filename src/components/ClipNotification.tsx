@@ -2,28 +2,34 @@ import React, { useEffect } from 'react';
 import './ClipNotification.css';
 
 interface ClipNotificationProps {
-    type: 'recorded' | 'saved' | 'buffer-on' | 'buffer-off';
+    type: 'recorded' | 'saved' | 'buffer-on' | 'buffer-off' | 'display-changed' | 'encoder-fallback' | 'error' | 'staging';
+    detail?: string;  // Overrides the subtitle
+    retryId?: number; // Failed export to offer a Retry for (error only)
 }
 
-const ClipNotification: React.FC<ClipNotificationProps> = ({ type }) => {
+const ClipNotification: React.FC<ClipNotificationProps> = ({ type, detail, retryId }) => {
     useEffect(() => {
         // Ensure the body/html background is transparent for this window
         document.body.style.backgroundColor = 'transparent';
         document.documentElement.style.backgroundColor = 'transparent';
 
         // Close the window after animation completes
-        // The CSS animation takes roughly 3s (0.4s enter + 2.2s wait + 0.4s exit)
-        // Electron also has a failsafe close at 3.5s
+        // The CSS animation takes roughly 3s (0.4s enter + 2.2s wait + 0.4s exit), 8s for errors
+        // Electron also has a failsafe close at 3.5s (8s for errors)
         const timer = setTimeout(() => {
             window.close();
-        }, 3400);
+        }, type === 'error' ? 7900 : 3400);
 
         return () => clearTimeout(timer);
-    }, []);
+    }, [type]);
 
     const isProcessing = type === 'recorded';
     const isBufferOn = type === 'buffer-on';
     const isBufferOff = type === 'buffer-off';
+    const isDisplayChanged = type === 'display-changed';
+    const isEncoderFallback = type === 'encoder-fallback';
+    const isError = type === 'error';
+    const isStaging = type === 'staging';
 
     let title = '';
     let subtitle = '';
@@ -37,6 +43,22 @@ const ClipNotification: React.FC<ClipNotificationProps> = ({ type }) => {
         title = 'Buffer Disabled';
         subtitle = 'Recording paused';
         notificationClass = 'buffer-off';
+    } else if (isDisplayChanged) {
+        title = 'Displays Changed';
+        subtitle = 'Recording rebuilt for new layout';
+        notificationClass = 'display-changed';
+    } else if (isEncoderFallback) {
+        title = 'Encoder Unavailable';
+        subtitle = 'Recording with a fallback encoder';
+        notificationClass = 'encoder-fallback';
+    } else if (isError) {
+        title = 'Clip Not Saved';
+        subtitle = 'Something went wrong';
+        notificationClass = 'error';
+    } else if (isStaging) {
+        title = 'Unprocessed Replays';
+        subtitle = 'Open LuminReplay to save them';
+        notificationClass = 'staging';
     } else if (isProcessing) {
         title = 'Clip Recorded';
         subtitle = 'Processing...';
@@ -53,7 +75,25 @@ const ClipNotification: React.FC<ClipNotificationProps> = ({ type }) => {
                 <div className="clip-notification-icon"></div>
                 <div className="clip-notification-content">
                     <div className="clip-notification-title">{title}</div>
-                    <div className="clip-notification-subtitle">{subtitle}</div>
+                    <div className="clip-notification-subtitle">{detail || subtitle}</div>
+                    {isError && (
+                        <div className="clip-notification-actions">
+                            {retryId !== undefined && (
+                                <button
+                                    className="clip-notification-btn primary"
+                                    onClick={async () => {
+                                        await window.electronAPI?.retryExport(retryId);
+                                        window.close();
+                                    }}
+                                >
+                                    Retry
+                                </button>
+                            )}
+                            <button className="clip-notification-btn" onClick={() => window.close()}>
+                                Dismiss
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
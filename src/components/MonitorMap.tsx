@@ -0,0 +1,72 @@
+import React from 'react';
+import './MonitorMap.css';
+
+// A display of the replay's recorded layout (see electron/layout.ts)
+interface RecordedDisplay {
+    key: string;
+    index: number;
+    label: string;
+    bounds: { x: number; y: number; width: number; height: number };
+}
+
+interface MonitorMapProps {
+    displays: RecordedDisplay[];
+    previews: Record<string, string>;  // preview frame URL per monitor key
+    defaultTarget: string;
+    onSelect: (monitorKey: string) => void;
+}
+
+const MAP_MAX_WIDTH = 468;  // fits the overlay's card column
+const MAP_MAX_HEIGHT = 200;
+const TILE_GAP = 3;  // px kept clear on each side of a tile so touching monitors stay apart
+
+/**
+ * Monitors of the recording drawn where they sat on the desktop, each showing a frame of what it recorded
+ * Tiles carry the 1-9 keyboard shortcuts in list order
+ */
+const MonitorMap: React.FC<MonitorMapProps> = ({ displays, previews, defaultTarget, onSelect }) => {
+    if (displays.length === 0) return null;
+
+    const left = Math.min(...displays.map(d => d.bounds.x));
+    const top = Math.min(...displays.map(d => d.bounds.y));
+    const right = Math.max(...displays.map(d => d.bounds.x + d.bounds.width));
+    const bottom = Math.max(...displays.map(d => d.bounds.y + d.bounds.height));
+    const scale = Math.min(MAP_MAX_WIDTH / (right - left), MAP_MAX_HEIGHT / (bottom - top));
+
+    return (
+        <div
+            className="monitor-map"
+            style={{ width: Math.round((right - left) * scale), height: Math.round((bottom - top) * scale) }}
+        >
+            {displays.map((d, idx) => (
+                <div
+                    key={d.key}
+                    className={`monitor-tile ${d.key === defaultTarget ? 'default' : ''}`}
+                    style={{
+                        left: (d.bounds.x - left) * scale + TILE_GAP,
+                        top: (d.bounds.y - top) * scale + TILE_GAP,
+                        width: d.bounds.width * scale - TILE_GAP * 2,
+                        height: d.bounds.height * scale - TILE_GAP * 2,
+                    }}
+                    title={`${d.label ? `${d.label} · ` : ''}${d.bounds.width}x${d.bounds.height}`}
+                    onClick={() => onSelect(d.key)}
+                >
+                    {previews[d.key] ? (
+                        <img className="monitor-tile-preview" src={previews[d.key]} alt="" draggable={false} />
+                    ) : (
+                        <div className="monitor-tile-placeholder">
+                            <i className="ph ph-monitor"></i>
+                        </div>
+                    )}
+                    <div className="monitor-tile-label">
+                        {idx < 9 && <kbd className="overlay-key">{idx + 1}</kbd>}
+                        <span className="monitor-tile-name">Monitor {d.index + 1}</span>
+                        <span className="monitor-tile-res">{d.bounds.width}x{d.bounds.height}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default MonitorMap;
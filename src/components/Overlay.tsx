@@ -1,8 +1,35 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import './Overlay.css';
+import TrimEditor, { TrimRange } from './TrimEditor';
+import RegionSelector from './RegionSelector';
+import MonitorMap from './MonitorMap';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// "Last N seconds" choices above the scrubber, same as the length hotkeys in Settings
+const CLIP_LENGTHS = [15, 30, 60];
+
+interface CanvasLayout {
+    bounds: Rect;
+    displays: { key: string; index: number; label: string; bounds: Rect }[];
+}
 
 const Overlay: React.FC = () => {
-    const [monitors, setMonitors] = useState<any[]>([]);
+    const [audioTracks, setAudioTracks] = useState<'mixed' | 'all'>('all');
+    const [keepComposite, setKeepComposite] = useState(false);
+    const [replayUrl, setReplayUrl] = useState<string | null>(null);
+    const [trim, setTrim] = useState<TrimRange | null>(null);
+    const [layout, setLayout] = useState<CanvasLayout | null>(null);
+    const [mode, setMode] = useState<'monitors' | 'region'>('monitors');
+    const [region, setRegion] = useState<Rect | null>(null);
+    const [queued, setQueued] = useState(0);
+    const [defaultTarget, setDefaultTarget] = useState<string>('all');
+    const [countdown, setCountdown] = useState<number | null>(null);  // seconds left before the default applies
+    const [previews, setPreviews] = useState<Record<string, string>>({});
+
+    // Monitors as recorded in this replay - the live display list may have changed since, and
+    // monitors left out of the recording can't be exported
+    const displays = layout?.displays ?? [];
 
     useEffect(() => {
         // Ensure the body/html/#root background is transparent for this window
@@ -11,42 +38,221 @@ const Overlay: React.FC = () => {
         const root = document.getElementById('root');
         if (root) root.style.backgroundColor = 'transparent';
 
-        // Request monitor info from main process
-        // @ts-ignore
-        window.electronAPI?.getMonitors().then((mons) => {
-            setMonitors(mons);
+        // Preview of the saved mega-canvas file for trimming
+        window.electronAPI?.getPendingReplay().then((replay) => {
+            if (replay) {
+                setReplayUrl(replay.url);
+                setLayout(replay.layout);
+                setQueued(replay.queued);
+                setDefaultTarget(replay.defaultTarget);
+                if (replay.timeout > 0) setCountdown(replay.timeout);
+            }
+        });
+
+        // Frame of each monitor from the saved file, extracted while the overlay opened
+        window.electronAPI?.getMonitorPreviews().then(setPreviews);
+
+        // Default the audio track choice to the saved setting
+        window.electronAPI?.getSettings().then((s) => {
+            if (s?.exportAudioTracks) setAudioTracks(s.exportAudioTracks);
+            if (s) setKeepComposite(!!s.keepComposite);
         });
     }, []);
 
-    const handleSelect = (index: number | 'all') => {
+    const handleSelect = (monitorKey: string | 'all' | 'composite') => {
         // Send selection to main process
         // @ts-ignore
-        window.electronAPI?.selectMonitor(index);
+        window.electronAPI?.selectMonitor(monitorKey, { audioTracks, trim: trim ?? undefined, keepComposite });
+    };
+
+    const handleSaveRegion = () => {
+        if (!region) return;
+        window.electronAPI?.selectRegion(region, { audioTracks, trim: trim ?? undefined, keepComposite });
     };
 
+    // Count down to the default action, then apply it with the choices made so far
+    const selectDefaultRef = useRef(() => handleSelect(defaultTarget));
+    selectDefaultRef.current = () => handleSelect(defaultTarget);
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown <= 0) {
+            selectDefaultRef.current();
+            return;
+        }
+        const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [countdown]);
+
+    // Any click or key press means the user is choosing - stop the countdown
+    useEffect(() => {
+        const stopCountdown = () => setCountdown(null);
+        window.addEventListener('pointerdown', stopCountdown, true);
+        window.addEventListener('keydown', stopCountdown, true);
+        return () => {
+            window.removeEventListener('pointerdown', stopCountdown, true);
+            window.removeEventListener('keydown', stopCountdown, true);
+        };
+    }, []);
+
+    // Keyboard shortcuts: 1-9 pick a monitor, A saves all, C the full canvas, Enter the default (or the drawn region), Esc cancels.
+    // Re-registered every render so the handler sees the current trim, audio and region choices.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || e.ctrlKey || e.altKey || e.metaKey) return;
+
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                window.electronAPI?.cancelSave();
+                return;
+            }
+
+            // Leave typing alone
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                if (mode === 'region' && region) {
+                    handleSaveRegion();
+                } else {
+                    handleSelect(defaultTarget);
+                }
+            } else if (e.key === 'a' || e.key === 'A') {
+                e.preventDefault();
+                handleSelect('all');
+            } else if (e.key === 'c' || e.key === 'C') {
+                e.preventDefault();
+                handleSelect('composite');
+            } else if (e.key >= '1' && e.key <= '9') {
+                const display = displays[Number(e.key) - 1];
+                if (display) {
+                    e.preventDefault();
+                    handleSelect(display.key);
+                }
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // Name of what the default action saves, for the countdown
+    const defaultDisplay = displays.find(d => d.key === defaultTarget);
+    const defaultLabel = defaultTarget === 'all' ? 'all monitors'
+        : defaultTarget === 'composite' ? 'the full canvas'
+            : defaultDisplay ? `Monitor ${defaultDisplay.index + 1}` : 'the active monitor';
+
     return (
         <div className="overlay-container">
             <div className="overlay-popup">
                 <h1 className="overlay-title">Select View to Save</h1>
+                {queued > 0 && (
+                    <div className="overlay-queued">
+                        {queued} more {queued === 1 ? 'replay' : 'replays'} waiting - they open after this one
+                    </div>
+                )}
+                {countdown !== null && (
+                    <div className="overlay-countdown">
+                        Saving {defaultLabel} in {countdown}s - click or press a key to choose
+                    </div>
+                )}
+
+                {replayUrl && <TrimEditor src={replayUrl} onChange={setTrim} presets={CLIP_LENGTHS} />}
+
+                {layout && replayUrl && (
+                    <div className="overlay-toggle-group">
+                        <button
+                            className={`overlay-toggle-btn ${mode === 'monitors' ? 'active' : ''}`}
+                            onClick={() => setMode('monitors')}
+                        >
+                            Monitors
+                        </button>
+                        <button
+                            className={`overlay-toggle-btn ${mode === 'region' ? 'active' : ''}`}
+                            onClick={() => setMode('region')}
+                        >
+                            Custom Region
+                        </button>
+                    </div>
+                )}
+
+                {mode === 'region' && layout && replayUrl ? (
+                    <div className="overlay-region">
+                        <RegionSelector layout={layout} src={replayUrl} onChange={setRegion} />
+                        <button
+                            className="overlay-save-btn"
+                            disabled={!region}
+                            onClick={handleSaveRegion}
+                        >
+                            Save Region
+                        </button>
+                    </div>
+                ) : (
+                    <div className="overlay-monitors-grid">
+                        <MonitorMap
+                            displays={displays}
+                            previews={previews}
+                            defaultTarget={defaultTarget}
+                            onSelect={handleSelect}
+                        />
 
-                <div className="overlay-monitors-grid">
-                    {monitors.map((m, idx) => (
                         <div
-                            key={idx}
-                            className="monitor-card"
-                            onClick={() => handleSelect(idx)}
+                            className={`monitor-card ${defaultTarget === 'all' ? 'default' : ''}`}
+                            onClick={() => handleSelect('all')}
                         >
-                            <div className="monitor-name">Monitor {idx + 1}</div>
-                            <div className="monitor-res">{m.width}x{m.height}</div>
+                            <div className="monitor-name">
+                                <kbd className="overlay-key">A</kbd>
+                                Save All
+                            </div>
+                            <div className="monitor-res">All Screens</div>
                         </div>
-                    ))}
-
-                    <div
-                        className="monitor-card"
-                        onClick={() => handleSelect('all')}
-                    >
-                        <div className="monitor-name">Save All</div>
-                        <div className="monitor-res">All Screens</div>
+
+                        <div
+                            className={`monitor-card ${defaultTarget === 'composite' ? 'default' : ''}`}
+                            onClick={() => handleSelect('composite')}
+                        >
+                            <div className="monitor-name">
+                                <kbd className="overlay-key">C</kbd>
+                                Full Canvas
+                            </div>
+                            <div className="monitor-res">All Screens, One File</div>
+                        </div>
+                    </div>
+                )}
+
+                <div className="overlay-options">
+                    <span className="overlay-options-label">Audio</span>
+                    <div className="overlay-toggle-group">
+                        <button
+                            className={`overlay-toggle-btn ${audioTracks === 'all' ? 'active' : ''}`}
+                            onClick={() => setAudioTracks('all')}
+                        >
+                            All Tracks
+                        </button>
+                        <button
+                            className={`overlay-toggle-btn ${audioTracks === 'mixed' ? 'active' : ''}`}
+                            onClick={() => setAudioTracks('mixed')}
+                        >
+                            Mixed Only
+                        </button>
+                    </div>
+                </div>
+
+                <div className="overlay-options">
+                    <span className="overlay-options-label">Also keep full canvas</span>
+                    <div className="overlay-toggle-group">
+                        <button
+                            className={`overlay-toggle-btn ${keepComposite ? 'active' : ''}`}
+                            onClick={() => setKeepComposite(true)}
+                        >
+                            Keep
+                        </button>
+                        <button
+                            className={`overlay-toggle-btn ${!keepComposite ? 'active' : ''}`}
+                            onClick={() => setKeepComposite(false)}
+                        >
+                            Discard
+                        </button>
                     </div>
                 </div>
 
@@ -59,6 +265,10 @@ const Overlay: React.FC = () => {
                 >
                     Cancel
                 </button>
+                <div className="overlay-shortcuts">
+                    <kbd className="overlay-key">Enter</kbd> Save {defaultLabel}
+                    <kbd className="overlay-key">Esc</kbd> Cancel
+                </div>
             </div>
         </div>
     );
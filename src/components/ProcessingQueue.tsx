@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import './ProcessingQueue.css';
+
+type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'canceled';
+
+interface ProcessingJob {
+    id: number;
+    label: string;
+    fileName: string;
+    status: JobStatus;
+    percent: number;
+    error?: string;
+}
+
+interface ProcessingStatus {
+    jobs: ProcessingJob[];
+    running: number;
+    queued: number;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+    'queued': 'Queued',
+    'running': '',
+    'done': 'Done',
+    'failed': 'Failed',
+    'canceled': 'Canceled',
+};
+
+/**
+ * Live list of clip processing jobs with progress and cancel buttons
+ * 'notification' fills the persistent notification window, 'panel' sits in the main window
+ * and hides itself while nothing is processing
+ */
+const ProcessingQueue: React.FC<{ variant: 'notification' | 'panel' }> = ({ variant }) => {
+    const [status, setStatus] = useState<ProcessingStatus | null>(null);
+
+    useEffect(() => {
+        if (variant === 'notification') {
+            // Ensure the body/html background is transparent for this window
+            document.body.style.backgroundColor = 'transparent';
+            document.documentElement.style.backgroundColor = 'transparent';
+        }
+
+        window.electronAPI?.getProcessingStatus().then(setStatus);
+        return window.electronAPI?.onProcessingUpdate(setStatus);
+    }, [variant]);
+
+    const active = status ? status.running + status.queued : 0;
+    if (!status || (variant === 'panel' && active === 0)) {
+        return null;
+    }
+
+    const finished = status.jobs.filter(job => job.status === 'done').length;
+
+    return (
+        <div className={`processing-queue ${variant}`}>
+            <div className="processing-header">
+                <div className="processing-spinner"></div>
+                <div className="processing-heading">
+                    <div className="processing-title">Processing Clips</div>
+                    <div className="processing-subtitle">
+                        {finished} of {status.jobs.length} done{status.queued > 0 ? ` · ${status.queued} queued` : ''}
+                    </div>
+                </div>
+                {active > 1 && (
+                    <button className="processing-cancel-all" onClick={() => window.electronAPI?.cancelAllProcessing()}>
+                        Cancel All
+                    </button>
+                )}
+            </div>
+
+            <div className="processing-jobs">
+                {status.jobs.map(job => (
+                    <div key={job.id} className={`processing-job ${job.status}`} title={job.error || job.fileName}>
+                        <div className="processing-job-info">
+                            <span className="processing-job-label">{job.label}</span>
+                            <span className="processing-job-status">
+                                {job.status === 'running' ? `${Math.floor(job.percent)}%` : STATUS_LABELS[job.status]}
+                            </span>
+                            {(job.status === 'queued' || job.status === 'running') && (
+                                <button
+                                    className="processing-job-cancel"
+                                    onClick={() => window.electronAPI?.cancelProcessingJob(job.id)}
+                                    title="Cancel"
+                                >
+                                    <i className="ph ph-x"></i>
+                                </button>
+                            )}
+                        </div>
+                        <div className="processing-job-bar">
+                            <div className="processing-job-fill" style={{ width: `${job.percent}%` }}></div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ProcessingQueue;
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import './RegionSelector.css';
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface RegionLayout {
+    bounds: Rect;
+    displays: { key?: string; index: number; label?: string; bounds: Rect }[];
+}
+
+type AspectLock = 'free' | '16:9' | '9:16';
+
+const ASPECT_RATIOS: Record<AspectLock, number | null> = {
+    'free': null,
+    '16:9': 16 / 9,
+    '9:16': 9 / 16,
+};
+
+// Regions smaller than this (desktop pixels) are treated as a stray click
+const MIN_REGION_SIZE = 16;
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Rectangle dragged from `from` to `to`, locked to `ratio` if given and kept inside `bounds`
+ */
+const fitRect = (from: Point, to: Point, ratio: number | null, bounds: Rect): Rect => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    let width = Math.abs(dx);
+    let height = Math.abs(dy);
+
+    // Room left in the drag direction
+    const maxWidth = dx >= 0 ? bounds.x + bounds.width - from.x : from.x - bounds.x;
+    const maxHeight = dy >= 0 ? bounds.y + bounds.height - from.y : from.y - bounds.y;
+
+    if (ratio) {
+        // Follow whichever side was dragged further, then shrink to fit
+        if (width / ratio >= height) height = width / ratio; else width = height * ratio;
+        if (width > maxWidth) { width = maxWidth; height = width / ratio; }
+        if (height > maxHeight) { height = maxHeight; width = height * ratio; }
+    } else {
+        width = Math.min(width, maxWidth);
+        height = Math.min(height, maxHeight);
+    }
+
+    return {
+        x: Math.round(dx >= 0 ? from.x : from.x - width),
+        y: Math.round(dy >= 0 ? from.y : from.y - height),
+        width: Math.round(width),
+        height: Math.round(height),
+    };
+};
+
+/**
+ * Miniature of the whole recorded canvas where a free-form region can be dragged out
+ * Reports the region in desktop coordinates, or null while nothing is selected
+ */
+const RegionSelector: React.FC<{
+    layout: RegionLayout;
+    src: string;
+    onChange: (region: Rect | null) => void;
+}> = ({ layout, src, onChange }) => {
+    const canvasRef = useRef<HTMLDivElement>(null);
+    const [region, setRegion] = useState<Rect | null>(null);
+    const [dragStart, setDragStart] = useState<Point | null>(null);
+    const [aspect, setAspect] = useState<AspectLock>('free');
+    const { bounds } = layout;
+
+    const isValid = (r: Rect | null): r is Rect => !!r && r.width >= MIN_REGION_SIZE && r.height >= MIN_REGION_SIZE;
+
+    useEffect(() => {
+        onChange(isValid(region) ? region : null);
+    }, [region, onChange]);
+
+    // Desktop coordinates under the pointer, clamped to the canvas
+    const pointFromEvent = (clientX: number, clientY: number): Point => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        if (!rect) return { x: bounds.x, y: bounds.y };
+        const rx = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+        const ry = Math.min(Math.max((clientY - rect.top) / rect.height, 0), 1);
+        return { x: bounds.x + rx * bounds.width, y: bounds.y + ry * bounds.height };
+    };
+
+    useEffect(() => {
+        if (!dragStart) return;
+
+        const handleMove = (e: PointerEvent) => {
+            setRegion(fitRect(dragStart, pointFromEvent(e.clientX, e.clientY), ASPECT_RATIOS[aspect], bounds));
+        };
+        const handleUp = () => setDragStart(null);
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    });
+
+    const handleAspectChange = (next: AspectLock) => {
+        setAspect(next);
+        // Re-fit an existing selection from its top-left corner
+        if (region) {
+            const from = { x: region.x, y: region.y };
+            const to = { x: region.x + region.width, y: region.y + region.height };
+            setRegion(fitRect(from, to, ASPECT_RATIOS[next], bounds));
+        }
+    };
+
+    // Position of a desktop rectangle inside the miniature, as percentages
+    const toStyle = (r: Rect): React.CSSProperties => ({
+        left: `${((r.x - bounds.x) / bounds.width) * 100}%`,
+        top: `${((r.y - bounds.y) / bounds.height) * 100}%`,
+        width: `${(r.width / bounds.width) * 100}%`,
+        height: `${(r.height / bounds.height) * 100}%`,
+    });
+
+    return (
+        <div className="region-selector">
+            <div
+                ref={canvasRef}
+                className="region-canvas"
+                style={{ aspectRatio: `${bounds.width} / ${bounds.height}` }}
+                onPointerDown={(e) => {
+                    e.preventDefault();
+                    const point = pointFromEvent(e.clientX, e.clientY);
+                    setDragStart(point);
+                    setRegion({ x: Math.round(point.x), y: Math.round(point.y), width: 0, height: 0 });
+                }}
+            >
+                <video className="region-video" src={src} muted preload="auto" />
+
+                {layout.displays.map(d => (
+                    <div key={d.key ?? d.index} className="region-display" style={toStyle(d.bounds)}>
+                        <span>{d.index + 1}</span>
+                    </div>
+                ))}
+
+                {region && region.width > 0 && region.height > 0 && (
+                    <div className="region-selection" style={toStyle(region)} />
+                )}
+            </div>
+
+            <div className="region-info">
+                <div className="overlay-toggle-group">
+                    {(Object.keys(ASPECT_RATIOS) as AspectLock[]).map(lock => (
+                        <button
+                            key={lock}
+                            className={`overlay-toggle-btn ${aspect === lock ? 'active' : ''}`}
+                            onClick={() => handleAspectChange(lock)}
+                        >
+                            {lock === 'free' ? 'Free' : lock}
+                        </button>
+                    ))}
+                </div>
+                <span className="region-size">
+                    {isValid(region) ? `${region.width}x${region.height}` : 'Drag to select'}
+                </span>
+            </div>
+        </div>
+    );
+};
+
+export default RegionSelector;
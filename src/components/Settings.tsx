@@ -2,18 +2,47 @@ import React, { useEffect, useState } from 'react';
 import './Settings.css';
 
 type ResolutionPreset = 'native' | '1080p' | '720p' | '480p' | 'custom';
+type BufferLimitMode = 'time' | 'size' | 'both';
+
+type AudioSourceKind = 'desktop' | 'microphone';
+
+interface AudioSourceConfig {
+    id: string;
+    kind: AudioSourceKind;
+    deviceId: string;
+    volume: number;
+    muted: boolean;
+}
+
+interface AudioDevice {
+    id: string;
+    name: string;
+}
 
 interface CustomResolution {
     width: number;
     height: number;
 }
 
+type RateControlMode = 'cbr' | 'vbr' | 'cq';
+
+type ExportVideoCodec = 'h264' | 'hevc' | 'av1';
+type ExportAudioCodec = 'copy' | 'aac' | 'opus';
+type ExportPreset = 'veryfast' | 'fast' | 'medium' | 'slow';
+
+type OverlayDefaultAction = 'all' | 'active' | 'composite';
+
 interface AppSettings {
     replayBufferDuration: number;
     replayBufferMaxSize: number;
+    replayBufferLimitMode: BufferLimitMode;
     videoBitrate: number;
     videoEncoder: string;
     encoderPreset: 'performance' | 'balanced' | 'quality';
+    rateControl: RateControlMode;
+    targetQuality: number;
+    keyframeInterval: number;
+    h264Profile: 'baseline' | 'main' | 'high';
     fps: number;
     captureResolution: ResolutionPreset;
     outputResolution: ResolutionPreset;
@@ -21,19 +50,34 @@ interface AppSettings {
     customOutputResolution?: CustomResolution;
     recordingFormat: 'mp4' | 'mkv' | 'flv';
     recordingPath: string;
+    exportAudioTracks: 'mixed' | 'all';
+    exportVideoCodec: ExportVideoCodec;
+    exportPreset: ExportPreset;
+    exportCrf: number;
+    exportAudioCodec: ExportAudioCodec;
+    exportAudioBitrate: number;
+    exportMatchSourceBitrate: boolean;
+    processingConcurrency: number;
+    keepComposite: boolean;
+    overlayDefaultAction: OverlayDefaultAction;
+    overlayTimeout: number;
     captureDesktopAudio: boolean;
     captureMicrophone: boolean;
+    audioSources: AudioSourceConfig[];
     replayHotkey: string;
-    monitor1Hotkey?: string;
-    monitor2Hotkey?: string;
+    monitorHotkeys: Record<string, string>;
     allMonitorsHotkey?: string;
+    activeMonitorHotkey?: string;
+    lengthHotkeys: Record<string, string>;
     bufferToggleHotkey?: string;
-    enabledMonitors?: number[];
+    enabledMonitors?: string[];
     openAtLogin?: boolean;
 }
 
 interface MonitorInfo {
+    key: string;
     id: number;
+    label: string;
     x: number;
     y: number;
     width: number;
@@ -41,9 +85,34 @@ interface MonitorInfo {
     index: number;
 }
 
+interface EncoderInfo {
+    id: string;
+    family: 'nvenc' | 'amf' | 'qsv' | 'x264';
+    name: string;
+    hardware: boolean;
+}
+
+interface EncoderStatus {
+    available: EncoderInfo[];
+    active: string | null;     // encoder the buffer is recording with
+    fallback: string | null;   // message if the configured encoder couldn't be used
+}
+
+// A saved monitor key and the connected display it resolves to (null if missing)
+interface MonitorKeyStatus {
+    key: string;
+    currentKey: string | null;
+    label: string;
+    width: number;
+    height: number;
+}
+
 const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
     const [settings, setSettings] = useState<AppSettings | null>(null);
     const [monitors, setMonitors] = useState<MonitorInfo[]>([]);
+    const [monitorKeyStatus, setMonitorKeyStatus] = useState<MonitorKeyStatus[]>([]);
+    const [encoders, setEncoders] = useState<EncoderStatus>({ available: [], active: null, fallback: null });
+    const [audioDevices, setAudioDevices] = useState<Record<AudioSourceKind, AudioDevice[]>>({ desktop: [], microphone: [] });
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [hasChanges, setHasChanges] = useState(false);
@@ -51,7 +120,8 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
     const [isCustomBitrate, setIsCustomBitrate] = useState(false);
 
     // Track which hotkey is currently being recorded (null if none)
-    const [recordingHotkeyField, setRecordingHotkeyField] = useState<keyof AppSettings | null>(null);
+    // Either a top-level settings key, `monitor:<key>` for a per-monitor hotkey or `length:<seconds>`
+    const [recordingHotkeyField, setRecordingHotkeyField] = useState<string | null>(null);
 
     // Initialize custom mode based on loaded settings
     useEffect(() => {
@@ -82,6 +152,76 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
 
     const formatOptions = ['mp4', 'mkv', 'flv'] as const;
 
+    const rateControlOptions: { mode: RateControlMode; label: string }[] = [
+        { mode: 'cbr', label: 'CBR' },
+        { mode: 'vbr', label: 'VBR' },
+        { mode: 'cq', label: 'Constant Quality' },
+    ];
+
+    // Seconds between keyframes, 0 = encoder default
+    const keyframeOptions = [0, 1, 2, 5];
+
+    const profileOptions = ['baseline', 'main', 'high'] as const;
+
+    // Export codecs with their CRF scale (see electron/export.ts)
+    const exportCodecOptions: { codec: ExportVideoCodec; label: string; defaultCrf: number; maxCrf: number }[] = [
+        { codec: 'h264', label: 'H.264', defaultCrf: 20, maxCrf: 51 },
+        { codec: 'hevc', label: 'HEVC', defaultCrf: 22, maxCrf: 51 },
+        { codec: 'av1', label: 'AV1', defaultCrf: 30, maxCrf: 63 },
+    ];
+    const exportCodec = exportCodecOptions.find(c => c.codec === settings?.exportVideoCodec) ?? exportCodecOptions[0];
+
+    const exportPresetOptions: ExportPreset[] = ['veryfast', 'fast', 'medium', 'slow'];
+
+    const exportAudioOptions: { codec: ExportAudioCodec; label: string }[] = [
+        { codec: 'copy', label: 'Keep Original' },
+        { codec: 'aac', label: 'AAC' },
+        { codec: 'opus', label: 'Opus' },
+    ];
+    const exportAudioBitrates = [128, 192, 256, 320];
+
+    const concurrencyOptions = [1, 2, 3, 4];
+
+    const overlayActionOptions: { action: OverlayDefaultAction; label: string }[] = [
+        { action: 'all', label: 'Save All' },
+        { action: 'active', label: 'Active Monitor' },
+        { action: 'composite', label: 'Full Canvas' },
+    ];
+
+    // "Last N seconds" saves that can get a hotkey (the overlay offers the same lengths)
+    const clipLengthOptions = [15, 30, 60];
+
+    // Seconds before the overlay applies its default action, 0 = never
+    const overlayTimeoutOptions = [0, 10, 15, 30, 60];
+
+    const bufferLimitOptions: { mode: BufferLimitMode; label: string }[] = [
+        { mode: 'time', label: 'Time' },
+        { mode: 'size', label: 'Size' },
+        { mode: 'both', label: 'Whichever First' },
+    ];
+
+    // OBS records AAC audio at 160 kbps by default, on three tracks (mixed, desktop, mic)
+    const AUDIO_BITRATE_KBPS = 160 * 3;
+
+    // Estimate how much memory the replay buffer holds once full, from bitrate x duration
+    const estimateBufferMemory = (s: AppSettings) => {
+        const totalKbps = s.videoBitrate + AUDIO_BITRATE_KBPS;
+        const timeMB = (totalKbps * s.replayBufferDuration) / 8 / 1000;
+        const sizeSeconds = (s.replayBufferMaxSize * 8 * 1000) / totalKbps;
+
+        switch (s.replayBufferLimitMode) {
+            case 'size':
+                return { megabytes: s.replayBufferMaxSize, seconds: sizeSeconds };
+            case 'both':
+                return timeMB > s.replayBufferMaxSize
+                    ? { megabytes: s.replayBufferMaxSize, seconds: sizeSeconds }
+                    : { megabytes: timeMB, seconds: s.replayBufferDuration };
+            case 'time':
+            default:
+                return { megabytes: timeMB, seconds: s.replayBufferDuration };
+        }
+    };
+
     useEffect(() => {
         loadSettings();
     }, []);
@@ -95,6 +235,19 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
             // @ts-ignore
             const m = await window.electronAPI?.getMonitors();
             setMonitors(m || []);
+
+            // Find out which saved monitors map to which connected display
+            if (s) {
+                const savedKeys = [...new Set([...(s.enabledMonitors || []), ...Object.keys(s.monitorHotkeys || {})])];
+                const status = await window.electronAPI?.getMonitorKeyStatus(savedKeys);
+                setMonitorKeyStatus(status || []);
+            }
+
+            const devices = await window.electronAPI?.getAudioDevices();
+            if (devices) setAudioDevices(devices);
+
+            const encoderStatus = await window.electronAPI?.getEncoders();
+            if (encoderStatus) setEncoders(encoderStatus);
         } catch (err) {
             console.error('Failed to load settings:', err);
         } finally {
@@ -108,33 +261,181 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
         setHasChanges(true);
     };
 
-    const handleMonitorToggle = (index: number, checked: boolean) => {
+    // The key in `savedKeys` that refers to a monitor - saved keys may be from before
+    // the display's id or position changed, so check what each one resolved to
+    const findSavedKey = (savedKeys: string[], monitorKey: string) => {
+        return savedKeys.find(k => k === monitorKey || monitorKeyStatus.find(st => st.key === k)?.currentKey === monitorKey);
+    };
+
+    const isMonitorEnabled = (monitorKey: string) => {
+        if (!settings?.enabledMonitors) return true;
+        return !!findSavedKey(settings.enabledMonitors, monitorKey);
+    };
+
+    const handleMonitorToggle = (monitorKey: string, checked: boolean) => {
         if (!settings) return;
 
         let current = settings.enabledMonitors;
-        // If undefined, it means "all enabled". Initialize it with all monitor indices first
+        // If undefined, it means "all enabled". Initialize it with all connected monitors first
         if (!current) {
-            current = monitors.map(m => m.index);
+            current = monitors.map(m => m.key);
         }
 
-        let next: number[];
+        // Drop whichever saved key referred to this monitor, then re-add it under its current key
+        const savedKey = findSavedKey(current, monitorKey);
+        const next = current.filter(k => k !== savedKey);
         if (checked) {
-            if (!current.includes(index)) {
-                next = [...current, index];
+            next.push(monitorKey);
+        }
+
+        handleChange('enabledMonitors', next);
+    };
+
+    // Saved monitors (enabled or with a hotkey) that aren't connected right now
+    const missingMonitors = settings
+        ? monitorKeyStatus.filter(st => !st.currentKey &&
+            (settings.enabledMonitors?.includes(st.key) || !!settings.monitorHotkeys?.[st.key]))
+        : [];
+
+    const handleForgetMonitor = (key: string) => {
+        if (!settings) return;
+        const monitorHotkeys = { ...settings.monitorHotkeys };
+        delete monitorHotkeys[key];
+        setSettings({
+            ...settings,
+            enabledMonitors: settings.enabledMonitors?.filter(k => k !== key),
+            monitorHotkeys,
+        });
+        setHasChanges(true);
+    };
+
+    // The configured encoder, or the one actually in use if the configured one isn't available
+    const isEncoderSelected = (encoder: EncoderInfo) => {
+        if (!settings) return false;
+        if (encoders.available.some(e => e.id === settings.videoEncoder)) {
+            return encoder.id === settings.videoEncoder;
+        }
+        return encoder.id === encoders.active;
+    };
+
+    // Max sources per kind, matching the OBS output channels available for each
+    const maxAudioSources: Record<AudioSourceKind, number> = { desktop: 2, microphone: 3 };
+
+    const handleAudioSourceChange = (id: string, changes: Partial<AudioSourceConfig>) => {
+        if (!settings) return;
+        handleChange('audioSources', settings.audioSources.map(src => src.id === id ? { ...src, ...changes } : src));
+    };
+
+    const handleAddAudioSource = (kind: AudioSourceKind) => {
+        if (!settings) return;
+        const source: AudioSourceConfig = { id: `${kind}-${Date.now()}`, kind, deviceId: 'default', volume: 1, muted: false };
+        handleChange('audioSources', [...settings.audioSources, source]);
+    };
+
+    const handleRemoveAudioSource = (id: string) => {
+        if (!settings) return;
+        handleChange('audioSources', settings.audioSources.filter(src => src.id !== id));
+    };
+
+    const renderAudioSources = (kind: AudioSourceKind) => {
+        if (!settings) return null;
+        const sources = settings.audioSources.filter(src => src.kind === kind);
+        const devices = audioDevices[kind];
+
+        return (
+            <div className="settings-audio-sources">
+                {sources.map(src => (
+                    <div key={src.id} className="settings-audio-source">
+                        <select
+                            value={src.deviceId}
+                            onChange={(e) => handleAudioSourceChange(src.id, { deviceId: e.target.value })}
+                        >
+                            {!devices.some(d => d.id === 'default') && <option value="default">Default</option>}
+                            {devices.map(d => (
+                                <option key={d.id} value={d.id}>{d.name}</option>
+                            ))}
+                            {src.deviceId !== 'default' && !devices.some(d => d.id === src.deviceId) && (
+                                <option value={src.deviceId}>Unavailable device</option>
+                            )}
+                        </select>
+                        <div className="settings-slider-container">
+                            <button
+                                className={`settings-audio-mute-btn ${src.muted ? 'muted' : ''}`}
+                                onClick={() => handleAudioSourceChange(src.id, { muted: !src.muted })}
+                                title={src.muted ? 'Unmute' : 'Mute'}
+                            >
+                                <i className={`ph ${src.muted ? 'ph-speaker-x' : 'ph-speaker-high'}`}></i>
+                            </button>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                step="1"
+                                value={Math.round(src.volume * 100)}
+                                onChange={(e) => handleAudioSourceChange(src.id, { volume: Number(e.target.value) / 100 })}
+                            />
+                            <span className="settings-slider-value">{Math.round(src.volume * 100)}%</span>
+                            {sources.length > 1 && (
+                                <button
+                                    className="settings-audio-remove-btn"
+                                    onClick={() => handleRemoveAudioSource(src.id)}
+                                    title="Remove source"
+                                >
+                                    <i className="ph ph-x"></i>
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {sources.length < maxAudioSources[kind] && (
+                    <button className="settings-browse-btn" onClick={() => handleAddAudioSource(kind)}>
+                        + Add {kind === 'desktop' ? 'Output' : 'Input'} Device
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    const getHotkey = (field: string): string => {
+        if (!settings) return '';
+        if (field.startsWith('monitor:')) {
+            const savedKey = findSavedKey(Object.keys(settings.monitorHotkeys || {}), field.slice('monitor:'.length));
+            return savedKey ? settings.monitorHotkeys[savedKey] : '';
+        }
+        if (field.startsWith('length:')) {
+            return settings.lengthHotkeys?.[field.slice('length:'.length)] || '';
+        }
+        return (settings[field as keyof AppSettings] as string | undefined) || '';
+    };
+
+    const setHotkey = (field: string, hotkey: string) => {
+        if (!settings) return;
+        if (field.startsWith('monitor:')) {
+            const monitorKey = field.slice('monitor:'.length);
+            const monitorHotkeys = { ...settings.monitorHotkeys };
+            const savedKey = findSavedKey(Object.keys(monitorHotkeys), monitorKey);
+            if (savedKey) {
+                delete monitorHotkeys[savedKey];
+            }
+            if (hotkey) {
+                monitorHotkeys[monitorKey] = hotkey;
+            }
+            handleChange('monitorHotkeys', monitorHotkeys);
+        } else if (field.startsWith('length:')) {
+            const lengthHotkeys = { ...settings.lengthHotkeys };
+            const seconds = field.slice('length:'.length);
+            if (hotkey) {
+                lengthHotkeys[seconds] = hotkey;
             } else {
-                next = current;
+                delete lengthHotkeys[seconds];
             }
+            handleChange('lengthHotkeys', lengthHotkeys);
         } else {
-            next = current.filter(i => i !== index);
+            handleChange(field as keyof AppSettings, hotkey as AppSettings[keyof AppSettings]);
         }
-
-        // Sort just in case
-        next.sort((a, b) => a - b);
-
-        handleChange('enabledMonitors', next);
     };
 
-    const handleHotkeyKeyDown = (e: React.KeyboardEvent, field: keyof AppSettings) => {
+    const handleHotkeyKeyDown = (e: React.KeyboardEvent, field: string) => {
         if (recordingHotkeyField !== field) return;
 
         e.preventDefault();
@@ -145,6 +446,13 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
             return;
         }
 
+        // Backspace/Delete on their own clear the hotkey
+        if ((e.key === 'Backspace' || e.key === 'Delete') && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+            setHotkey(field, '');
+            setRecordingHotkeyField(null);
+            return;
+        }
+
         const modifiers = [];
         if (e.ctrlKey) modifiers.push('Ctrl');
         if (e.metaKey) modifiers.push('Super'); // Often mapped to CommandOrControl on Mac, Super on Windows
@@ -167,10 +475,36 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
         }
 
         const hotkey = [...modifiers, key].join('+');
-        handleChange(field, hotkey as AppSettings[typeof field]);
+        setHotkey(field, hotkey);
         setRecordingHotkeyField(null);
     };
 
+    const renderHotkeyRow = (field: string, label: string, hint: string) => (
+        <div className="settings-row" key={field}>
+            <label>{label}</label>
+            <div className="settings-input-group">
+                <div className="settings-hotkey-wrapper">
+                    <input
+                        type="text"
+                        value={recordingHotkeyField === field ? "Press any key..." : getHotkey(field)}
+                        readOnly
+                        className={`settings-hotkey-display ${recordingHotkeyField === field ? 'recording' : ''}`}
+                        onClick={() => setRecordingHotkeyField(field)}
+                        onKeyDown={(e) => handleHotkeyKeyDown(e, field)}
+                        onBlur={() => setRecordingHotkeyField(null)}
+                        placeholder="Click to set hotkey"
+                    />
+                    {recordingHotkeyField === field && (
+                        <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
+                            Tap to cancel
+                        </div>
+                    )}
+                </div>
+                <span className="settings-hint">{hint}</span>
+            </div>
+        </div>
+    );
+
     const handleSave = async () => {
         if (!settings) return;
         setSaving(true);
@@ -290,111 +624,157 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                     <h2>Replay Buffer</h2>
 
                     <div className="settings-row">
-                        <label>Buffer Duration</label>
+                        <label>Buffer Limit</label>
                         <div className="settings-input-group">
-                            {!isCustomDuration ? (
-                                <div className="settings-slider-container">
-                                    <input
-                                        type="range"
-                                        min="10"
-                                        max="180"
-                                        step="10"
-                                        value={Math.min(settings.replayBufferDuration, 180)}
-                                        onChange={(e) => handleChange('replayBufferDuration', Number(e.target.value))}
-                                    />
-                                    <span className="settings-slider-value">
-                                        {settings.replayBufferDuration >= 60
-                                            ? `${Math.floor(settings.replayBufferDuration / 60)}m ${settings.replayBufferDuration % 60 > 0 ? settings.replayBufferDuration % 60 + 's' : ''}`
-                                            : `${settings.replayBufferDuration}s`}
-                                    </span>
+                            <div className="settings-toggle-group">
+                                {bufferLimitOptions.map(opt => (
                                     <button
-                                        className="settings-toggle-btn"
-                                        onClick={() => setIsCustomDuration(true)}
-                                        style={{ marginLeft: '10px', whiteSpace: 'nowrap' }}
+                                        key={opt.mode}
+                                        className={`settings-toggle-btn ${settings.replayBufferLimitMode === opt.mode ? 'active' : ''}`}
+                                        onClick={() => handleChange('replayBufferLimitMode', opt.mode)}
                                     >
-                                        Custom
+                                        {opt.label}
                                     </button>
-                                </div>
-                            ) : (
-                                <div className="settings-custom-duration-container" style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
-                                    <div style={{
-                                        flex: 1,
-                                        display: 'flex',
-                                        alignItems: 'center',
-                                        background: 'rgba(0, 0, 0, 0.2)',
-                                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                                        borderRadius: '8px',
-                                        padding: '0 1rem',
-                                        transition: 'all 0.2s ease'
-                                    }}>
+                                ))}
+                            </div>
+                            <span className="settings-hint">
+                                {settings.replayBufferLimitMode === 'time'
+                                    ? 'Keep the last N seconds, regardless of memory used'
+                                    : settings.replayBufferLimitMode === 'size'
+                                        ? 'Keep as much as fits in the memory limit'
+                                        : 'Stop at the duration or the memory limit, whichever comes first'}
+                            </span>
+                        </div>
+                    </div>
+
+                    {settings.replayBufferLimitMode !== 'size' && (
+                        <div className="settings-row">
+                            <label>Buffer Duration</label>
+                            <div className="settings-input-group">
+                                {!isCustomDuration ? (
+                                    <div className="settings-slider-container">
                                         <input
-                                            type="number"
-                                            min="1"
-                                            value={settings.replayBufferDuration || ''}
-                                            onChange={(e) => handleChange('replayBufferDuration', parseInt(e.target.value) || 0)}
-                                            onBlur={() => {
-                                                if (settings.replayBufferDuration < 1) handleChange('replayBufferDuration', 1);
-                                            }}
-                                            className="settings-number-input-custom"
-                                            placeholder="Seconds"
-                                            style={{
-                                                flex: 1,
-                                                background: 'transparent',
-                                                border: 'none',
-                                                color: '#f3f4f6',
-                                                padding: '0.75rem 0',
-                                                fontSize: '0.95rem',
-                                                outline: 'none',
-                                                width: '100%'
-                                            }}
+                                            type="range"
+                                            min="10"
+                                            max="180"
+                                            step="10"
+                                            value={Math.min(settings.replayBufferDuration, 180)}
+                                            onChange={(e) => handleChange('replayBufferDuration', Number(e.target.value))}
                                         />
-                                        <span style={{ color: '#9ca3af', fontSize: '0.9rem', whiteSpace: 'nowrap', marginLeft: '10px', userSelect: 'none' }}>
-                                            {Math.floor(settings.replayBufferDuration / 60)}m {settings.replayBufferDuration % 60}s
+                                        <span className="settings-slider-value">
+                                            {settings.replayBufferDuration >= 60
+                                                ? `${Math.floor(settings.replayBufferDuration / 60)}m ${settings.replayBufferDuration % 60 > 0 ? settings.replayBufferDuration % 60 + 's' : ''}`
+                                                : `${settings.replayBufferDuration}s`}
                                         </span>
+                                        <button
+                                            className="settings-toggle-btn"
+                                            onClick={() => setIsCustomDuration(true)}
+                                            style={{ marginLeft: '10px', whiteSpace: 'nowrap' }}
+                                        >
+                                            Custom
+                                        </button>
                                     </div>
-                                    <button
-                                        className="settings-toggle-btn active"
-                                        onClick={() => {
-                                            setIsCustomDuration(false);
-                                            // Optional: Clamp back to range if needed, or let the slider handle it (it uses min/max)
-                                            if (settings.replayBufferDuration > 180) {
-                                                handleChange('replayBufferDuration', 180);
-                                            } else if (settings.replayBufferDuration < 10) {
-                                                handleChange('replayBufferDuration', 10);
-                                            } else {
-                                                // Round to nearest 10
-                                                handleChange('replayBufferDuration', Math.round(settings.replayBufferDuration / 10) * 10);
-                                            }
-                                        }}
-                                        style={{ whiteSpace: 'nowrap' }}
-                                    >
-                                        Slider
-                                    </button>
+                                ) : (
+                                    <div className="settings-custom-duration-container" style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+                                        <div style={{
+                                            flex: 1,
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            background: 'rgba(0, 0, 0, 0.2)',
+                                            border: '1px solid rgba(255, 255, 255, 0.1)',
+                                            borderRadius: '8px',
+                                            padding: '0 1rem',
+                                            transition: 'all 0.2s ease'
+                                        }}>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={settings.replayBufferDuration || ''}
+                                                onChange={(e) => handleChange('replayBufferDuration', parseInt(e.target.value) || 0)}
+                                                onBlur={() => {
+                                                    if (settings.replayBufferDuration < 1) handleChange('replayBufferDuration', 1);
+                                                }}
+                                                className="settings-number-input-custom"
+                                                placeholder="Seconds"
+                                                style={{
+                                                    flex: 1,
+                                                    background: 'transparent',
+                                                    border: 'none',
+                                                    color: '#f3f4f6',
+                                                    padding: '0.75rem 0',
+                                                    fontSize: '0.95rem',
+                                                    outline: 'none',
+                                                    width: '100%'
+                                                }}
+                                            />
+                                            <span style={{ color: '#9ca3af', fontSize: '0.9rem', whiteSpace: 'nowrap', marginLeft: '10px', userSelect: 'none' }}>
+                                                {Math.floor(settings.replayBufferDuration / 60)}m {settings.replayBufferDuration % 60}s
+                                            </span>
+                                        </div>
+                                        <button
+                                            className="settings-toggle-btn active"
+                                            onClick={() => {
+                                                setIsCustomDuration(false);
+                                                // Optional: Clamp back to range if needed, or let the slider handle it (it uses min/max)
+                                                if (settings.replayBufferDuration > 180) {
+                                                    handleChange('replayBufferDuration', 180);
+                                                } else if (settings.replayBufferDuration < 10) {
+                                                    handleChange('replayBufferDuration', 10);
+                                                } else {
+                                                    // Round to nearest 10
+                                                    handleChange('replayBufferDuration', Math.round(settings.replayBufferDuration / 10) * 10);
+                                                }
+                                            }}
+                                            style={{ whiteSpace: 'nowrap' }}
+                                        >
+                                            Slider
+                                        </button>
+                                    </div>
+                                )}
+                                <span className="settings-hint">
+                                    {isCustomDuration
+                                        ? "Enter duration in seconds"
+                                        : "Slide to adjust duration (up to 3 minutes)"}
+                                </span>
+                            </div>
+                        </div>
+
+                    )}
+
+                    {settings.replayBufferLimitMode !== 'time' && (
+                        <div className="settings-row">
+                            <label>Max Buffer Size</label>
+                            <div className="settings-input-group">
+                                <div className="settings-slider-container">
+                                    <input
+                                        type="range"
+                                        min="256"
+                                        max="4096"
+                                        step="256"
+                                        value={settings.replayBufferMaxSize}
+                                        onChange={(e) => handleChange('replayBufferMaxSize', Number(e.target.value))}
+                                    />
+                                    <span className="settings-slider-value">{settings.replayBufferMaxSize} MB</span>
                                 </div>
-                            )}
-                            <span className="settings-hint">
-                                {isCustomDuration
-                                    ? "Enter duration in seconds"
-                                    : "Slide to adjust duration (up to 3 minutes)"}
-                            </span>
+                                <span className="settings-hint">Maximum memory used for replay buffer</span>
+                            </div>
                         </div>
-                    </div>
+                    )}
 
                     <div className="settings-row">
-                        <label>Max Buffer Size</label>
+                        <label>Estimated Memory</label>
                         <div className="settings-input-group">
-                            <div className="settings-slider-container">
-                                <input
-                                    type="range"
-                                    min="256"
-                                    max="4096"
-                                    step="256"
-                                    value={settings.replayBufferMaxSize}
-                                    onChange={(e) => handleChange('replayBufferMaxSize', Number(e.target.value))}
-                                />
-                                <span className="settings-slider-value">{settings.replayBufferMaxSize} MB</span>
-                            </div>
-                            <span className="settings-hint">Maximum memory used for replay buffer</span>
+                            {(() => {
+                                const estimate = estimateBufferMemory(settings);
+                                return (
+                                    <>
+                                        <span className="settings-slider-value">~{Math.round(estimate.megabytes)} MB</span>
+                                        <span className="settings-hint">
+                                            About {Math.round(estimate.seconds)}s of footage at {(settings.videoBitrate / 1000).toFixed(1)} Mbps
+                                        </span>
+                                    </>
+                                );
+                            })()}
                         </div>
                     </div>
                 </section>
@@ -423,22 +803,25 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                     <div className="settings-row">
                         <label>Video Encoder</label>
                         <div className="settings-input-group">
-                            <div className="settings-toggle-group">
-                                <button
-                                    className={`settings-toggle-btn ${settings.videoEncoder !== 'x264' ? 'active' : ''}`}
-                                    onClick={() => handleChange('videoEncoder', 'jim_nvenc_h264')}
-                                >
-                                    NVIDIA NVENC
-                                </button>
-                                <button
-                                    className={`settings-toggle-btn ${settings.videoEncoder === 'x264' ? 'active' : ''}`}
-                                    onClick={() => handleChange('videoEncoder', 'x264')}
-                                >
-                                    Software (x264)
-                                </button>
-                            </div>
+                            {encoders.available.length > 0 ? (
+                                <div className="settings-toggle-group">
+                                    {encoders.available.map(encoder => (
+                                        <button
+                                            key={encoder.id}
+                                            className={`settings-toggle-btn ${isEncoderSelected(encoder) ? 'active' : ''}`}
+                                            onClick={() => handleChange('videoEncoder', encoder.id)}
+                                        >
+                                            {encoder.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div style={{ color: '#9ca3af', fontStyle: 'italic' }}>Encoder list unavailable (recording engine not running)</div>
+                            )}
                             <span className="settings-hint">
-                                NVENC moves recording load to the GPU, improving game performance.
+                                {encoders.fallback && !encoders.available.some(e => e.id === settings.videoEncoder)
+                                    ? `${encoders.fallback}. Only encoders your hardware supports are listed.`
+                                    : 'Hardware encoders move recording load to the GPU, improving game performance.'}
                             </span>
                         </div>
                     </div>
@@ -476,6 +859,50 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                         </div>
                     </div>
 
+                    <div className="settings-row">
+                        <label>Rate Control</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {rateControlOptions.map(opt => (
+                                    <button
+                                        key={opt.mode}
+                                        className={`settings-toggle-btn ${settings.rateControl === opt.mode ? 'active' : ''}`}
+                                        onClick={() => handleChange('rateControl', opt.mode)}
+                                    >
+                                        {opt.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="settings-hint">
+                                {settings.rateControl === 'cbr'
+                                    ? 'Fixed bitrate - predictable file sizes, quality drops in busy scenes.'
+                                    : settings.rateControl === 'vbr'
+                                        ? 'Averages the target bitrate, spending more on busy scenes.'
+                                        : 'Keeps quality steady and lets the bitrate vary. Lowest GPU usage.'}
+                            </span>
+                        </div>
+                    </div>
+
+                    {settings.rateControl === 'cq' && (
+                        <div className="settings-row">
+                            <label>Target Quality</label>
+                            <div className="settings-input-group">
+                                <div className="settings-slider-container">
+                                    <input
+                                        type="range"
+                                        min="14"
+                                        max="32"
+                                        step="1"
+                                        value={settings.targetQuality}
+                                        onChange={(e) => handleChange('targetQuality', Number(e.target.value))}
+                                    />
+                                    <span className="settings-slider-value">{settings.targetQuality}</span>
+                                </div>
+                                <span className="settings-hint">Lower = better quality, larger files (CQP on hardware encoders, CRF on x264)</span>
+                            </div>
+                        </div>
+                    )}
+
                     <div className="settings-row">
                         <label>Video Bitrate</label>
                         <div className="settings-input-group">
@@ -557,7 +984,47 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                                     </button>
                                 </div>
                             )}
-                            <span className="settings-hint">Higher bitrate = better quality, larger files</span>
+                            <span className="settings-hint">
+                                {settings.rateControl === 'cq'
+                                    ? 'Only used to estimate buffer size - constant quality has no fixed bitrate'
+                                    : 'Higher bitrate = better quality, larger files'}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="settings-row">
+                        <label>Keyframe Interval</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {keyframeOptions.map(seconds => (
+                                    <button
+                                        key={seconds}
+                                        className={`settings-toggle-btn ${settings.keyframeInterval === seconds ? 'active' : ''}`}
+                                        onClick={() => handleChange('keyframeInterval', seconds)}
+                                    >
+                                        {seconds === 0 ? 'Auto' : `${seconds}s`}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="settings-hint">Shorter intervals let clips be trimmed more precisely, at a small size cost</span>
+                        </div>
+                    </div>
+
+                    <div className="settings-row">
+                        <label>H.264 Profile</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {profileOptions.map(profile => (
+                                    <button
+                                        key={profile}
+                                        className={`settings-toggle-btn ${settings.h264Profile === profile ? 'active' : ''}`}
+                                        onClick={() => handleChange('h264Profile', profile)}
+                                    >
+                                        {profile.charAt(0).toUpperCase() + profile.slice(1)}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="settings-hint">High gives the best compression; Baseline plays on older devices</span>
                         </div>
                     </div>
 
@@ -689,15 +1156,15 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                             {monitors.length > 0 ? (
                                 <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                                     {monitors.map(m => (
-                                        <label key={m.id} className="settings-checkbox-item" style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+                                        <label key={m.key} className="settings-checkbox-item" style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
                                             <input
                                                 type="checkbox"
-                                                checked={!settings.enabledMonitors || settings.enabledMonitors.includes(m.index)}
-                                                onChange={(e) => handleMonitorToggle(m.index, e.target.checked)}
+                                                checked={isMonitorEnabled(m.key)}
+                                                onChange={(e) => handleMonitorToggle(m.key, e.target.checked)}
                                                 style={{ width: '18px', height: '18px', accentColor: '#f1d289' }}
                                             />
                                             <span style={{ fontSize: '0.95rem', color: '#f3f4f6' }}>
-                                                Monitor {m.index + 1} ({m.width}x{m.height})
+                                                Monitor {m.index + 1} {m.label && `- ${m.label} `}({m.width}x{m.height})
                                             </span>
                                         </label>
                                     ))}
@@ -705,6 +1172,24 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                             ) : (
                                 <div style={{ color: '#9ca3af', fontStyle: 'italic' }}>No monitors detected</div>
                             )}
+                            {missingMonitors.length > 0 && (
+                                <div className="settings-missing-monitors">
+                                    {missingMonitors.map(st => (
+                                        <div key={st.key} className="settings-missing-monitor">
+                                            <span>
+                                                {st.label || 'Unknown monitor'} ({st.width}x{st.height}) - not connected
+                                            </span>
+                                            <button
+                                                className="settings-missing-monitor-btn"
+                                                onClick={() => handleForgetMonitor(st.key)}
+                                                title="Forget this monitor"
+                                            >
+                                                Forget
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             <span className="settings-hint" style={{ marginTop: '8px', display: 'block' }}>
                                 Uncheck monitors to exclude them from the Mega-Canvas recording.
                             </span>
@@ -732,172 +1217,293 @@ const Settings: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                             </div>
                         </div>
                     </div>
-                </section>
 
-                {/* Audio Section */}
-                <section className="settings-section">
-                    <h2>Audio</h2>
+                    <div className="settings-row">
+                        <label>Audio Tracks</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                <button
+                                    className={`settings-toggle-btn ${settings.exportAudioTracks === 'all' ? 'active' : ''}`}
+                                    onClick={() => handleChange('exportAudioTracks', 'all')}
+                                >
+                                    All Tracks
+                                </button>
+                                <button
+                                    className={`settings-toggle-btn ${settings.exportAudioTracks === 'mixed' ? 'active' : ''}`}
+                                    onClick={() => handleChange('exportAudioTracks', 'mixed')}
+                                >
+                                    Mixed Only
+                                </button>
+                            </div>
+                            <span className="settings-hint">
+                                All Tracks keeps separate desktop and microphone tracks alongside the mix, so voice can be removed later
+                            </span>
+                        </div>
+                    </div>
 
                     <div className="settings-row">
-                        <label>Desktop Audio</label>
+                        <label>Export Codec</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {exportCodecOptions.map(opt => (
+                                    <button
+                                        key={opt.codec}
+                                        className={`settings-toggle-btn ${settings.exportVideoCodec === opt.codec ? 'active' : ''}`}
+                                        onClick={() => {
+                                            // CRF scales differ per codec, so start from the new codec's default
+                                            if (!settings || settings.exportVideoCodec === opt.codec) return;
+                                            setSettings({ ...settings, exportVideoCodec: opt.codec, exportCrf: opt.defaultCrf });
+                                            setHasChanges(true);
+                                        }}
+                                    >
+                                        {opt.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="settings-hint">
+                                Used when cropping or trimming saved clips. HEVC and AV1 give smaller files but encode slower.
+                                {settings.recordingFormat === 'flv' && settings.exportVideoCodec !== 'h264' && ' FLV only supports H.264, so clips will be exported as H.264.'}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="settings-row">
+                        <label>Export Preset</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {exportPresetOptions.map(preset => (
+                                    <button
+                                        key={preset}
+                                        className={`settings-toggle-btn ${settings.exportPreset === preset ? 'active' : ''}`}
+                                        onClick={() => handleChange('exportPreset', preset)}
+                                    >
+                                        {preset === 'veryfast' ? 'Very Fast' : preset.charAt(0).toUpperCase() + preset.slice(1)}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="settings-hint">Slower presets compress better at the same quality but take longer to export</span>
+                        </div>
+                    </div>
+
+                    <div className="settings-row">
+                        <label>Match Source Bitrate</label>
                         <div className="settings-input-group">
                             <label className="settings-switch">
                                 <input
                                     type="checkbox"
-                                    checked={settings.captureDesktopAudio}
-                                    onChange={(e) => handleChange('captureDesktopAudio', e.target.checked)}
+                                    checked={settings.exportMatchSourceBitrate}
+                                    onChange={(e) => handleChange('exportMatchSourceBitrate', e.target.checked)}
                                 />
                                 <span className="settings-switch-slider"></span>
                             </label>
-                            <span className="settings-hint">Capture game and system audio</span>
+                            <span className="settings-hint">Keep the recording's bitrate (scaled to the cropped area) instead of a quality target</span>
                         </div>
                     </div>
 
+                    {!settings.exportMatchSourceBitrate && (
+                        <div className="settings-row">
+                            <label>Export Quality (CRF)</label>
+                            <div className="settings-input-group">
+                                <div className="settings-slider-container">
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max={exportCodec.maxCrf}
+                                        step="1"
+                                        value={settings.exportCrf}
+                                        onChange={(e) => handleChange('exportCrf', Number(e.target.value))}
+                                    />
+                                    <span className="settings-slider-value">{settings.exportCrf}</span>
+                                </div>
+                                <span className="settings-hint">Lower = better quality, larger files (default {exportCodec.defaultCrf} for {exportCodec.label})</span>
+                            </div>
+                        </div>
+                    )}
+
                     <div className="settings-row">
-                        <label>Microphone</label>
+                        <label>Export Audio</label>
+                        <div className="settings-input-group">
+                            <div className="settings-toggle-group">
+                                {exportAudioOptions.map(opt => (
+                                    <button
+                                        key={opt.codec}
+                                        className={`settings-toggle-btn ${settings.exportAudioCodec === opt.codec ? 'active' : ''}`}
+                                        onClick={() => handleChange('exportAudioCodec', opt.codec)}
+                                    >
+                                        {opt.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {settings.exportAudioCodec !== 'copy' && (
+                                <div className="settings-toggle-group">
+                                    {exportAudioBitrates.map(kbps => (
+                                        <button
+                                            key={kbps}
+                                            className={`settings-toggle-btn ${settings.exportAudioBitrate === kbps ? 'active' : ''}`}
+                                            onClick={() => handleChange('exportAudioBitrate', kbps)}
+                                        >
+                                            {kbps} kbps
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <span className="settings-hint">Keep Original copies the recorded audio without re-encoding</span>
+                        </div>
+                    </div>
+
+                    <div className="settings-row">
+                        <label>Keep Full Canvas</label>
                         <div className="settings-input-group">
                             <label className="settings-switch">
                                 <input
                                     type="checkbox"
-                                    checked={settings.captureMicrophone}
-                                    onChange={(e) => handleChange('captureMicrophone', e.target.checked)}
+                                    checked={settings.keepComposite}
+                                    onChange={(e) => handleChange('keepComposite', e.target.checked)}
                                 />
                                 <span className="settings-switch-slider"></span>
                             </label>
-                            <span className="settings-hint">Capture microphone audio</span>
+                            <span className="settings-hint">Also save the whole multi-monitor recording next to the per-monitor clips. It can be split again later from the Clip Library.</span>
                         </div>
                     </div>
-                </section>
-
-                {/* Hotkeys Section */}
-                <section className="settings-section">
-                    <h2>Hotkeys</h2>
 
-                    {/* Main Save Replay Hotkey (shows overlay) */}
                     <div className="settings-row">
-                        <label>Save Replay (Select Monitor)</label>
+                        <label>Parallel Exports</label>
                         <div className="settings-input-group">
-                            <div className="settings-hotkey-wrapper">
-                                <input
-                                    type="text"
-                                    value={recordingHotkeyField === 'replayHotkey' ? "Press any key..." : settings.replayHotkey}
-                                    readOnly
-                                    className={`settings-hotkey-display ${recordingHotkeyField === 'replayHotkey' ? 'recording' : ''}`}
-                                    onClick={() => setRecordingHotkeyField('replayHotkey')}
-                                    onKeyDown={(e) => handleHotkeyKeyDown(e, 'replayHotkey')}
-                                    onBlur={() => setRecordingHotkeyField(null)}
-                                    placeholder="Click to set hotkey"
-                                />
-                                {recordingHotkeyField === 'replayHotkey' && (
-                                    <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
-                                        Tap to cancel
-                                    </div>
-                                )}
+                            <div className="settings-toggle-group">
+                                {concurrencyOptions.map(count => (
+                                    <button
+                                        key={count}
+                                        className={`settings-toggle-btn ${settings.processingConcurrency === count ? 'active' : ''}`}
+                                        onClick={() => handleChange('processingConcurrency', count)}
+                                    >
+                                        {count}
+                                    </button>
+                                ))}
                             </div>
-                            <span className="settings-hint">Shows monitor selection popup (for multi-monitor)</span>
+                            <span className="settings-hint">Clips encoded at the same time; the rest wait in the queue. Lower values leave more CPU for games.</span>
                         </div>
                     </div>
+                </section>
+
+                {/* Overlay Section */}
+                <section className="settings-section">
+                    <h2>Save Overlay</h2>
 
-                    {/* Monitor 1 Direct Save Hotkey */}
                     <div className="settings-row">
-                        <label>Save Monitor 1</label>
+                        <label>Default Action</label>
                         <div className="settings-input-group">
-                            <div className="settings-hotkey-wrapper">
-                                <input
-                                    type="text"
-                                    value={recordingHotkeyField === 'monitor1Hotkey' ? "Press any key..." : (settings.monitor1Hotkey || '')}
-                                    readOnly
-                                    className={`settings-hotkey-display ${recordingHotkeyField === 'monitor1Hotkey' ? 'recording' : ''}`}
-                                    onClick={() => setRecordingHotkeyField('monitor1Hotkey')}
-                                    onKeyDown={(e) => handleHotkeyKeyDown(e, 'monitor1Hotkey')}
-                                    onBlur={() => setRecordingHotkeyField(null)}
-                                    placeholder="Click to set hotkey"
-                                />
-                                {recordingHotkeyField === 'monitor1Hotkey' && (
-                                    <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
-                                        Tap to cancel
-                                    </div>
-                                )}
+                            <div className="settings-toggle-group">
+                                {overlayActionOptions.map(opt => (
+                                    <button
+                                        key={opt.action}
+                                        className={`settings-toggle-btn ${settings.overlayDefaultAction === opt.action ? 'active' : ''}`}
+                                        onClick={() => handleChange('overlayDefaultAction', opt.action)}
+                                    >
+                                        {opt.label}
+                                    </button>
+                                ))}
                             </div>
-                            <span className="settings-hint">Instantly save only Monitor 1 (no popup)</span>
+                            <span className="settings-hint">
+                                Saved when pressing Enter in the overlay. Active Monitor is the one under the mouse cursor when the replay was saved; Full Canvas keeps every monitor in one file.
+                            </span>
                         </div>
                     </div>
 
-                    {/* Monitor 2 Direct Save Hotkey */}
                     <div className="settings-row">
-                        <label>Save Monitor 2</label>
+                        <label>Auto-Save After</label>
                         <div className="settings-input-group">
-                            <div className="settings-hotkey-wrapper">
-                                <input
-                                    type="text"
-                                    value={recordingHotkeyField === 'monitor2Hotkey' ? "Press any key..." : (settings.monitor2Hotkey || '')}
-                                    readOnly
-                                    className={`settings-hotkey-display ${recordingHotkeyField === 'monitor2Hotkey' ? 'recording' : ''}`}
-                                    onClick={() => setRecordingHotkeyField('monitor2Hotkey')}
-                                    onKeyDown={(e) => handleHotkeyKeyDown(e, 'monitor2Hotkey')}
-                                    onBlur={() => setRecordingHotkeyField(null)}
-                                    placeholder="Click to set hotkey"
-                                />
-                                {recordingHotkeyField === 'monitor2Hotkey' && (
-                                    <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
-                                        Tap to cancel
-                                    </div>
-                                )}
+                            <div className="settings-toggle-group">
+                                {overlayTimeoutOptions.map(seconds => (
+                                    <button
+                                        key={seconds}
+                                        className={`settings-toggle-btn ${settings.overlayTimeout === seconds ? 'active' : ''}`}
+                                        onClick={() => handleChange('overlayTimeout', seconds)}
+                                    >
+                                        {seconds === 0 ? 'Never' : `${seconds}s`}
+                                    </button>
+                                ))}
                             </div>
-                            <span className="settings-hint">Instantly save only Monitor 2 (no popup)</span>
+                            <span className="settings-hint">
+                                Applies the default action if no choice is made. Clicking or pressing a key in the overlay stops the countdown.
+                            </span>
                         </div>
                     </div>
+                </section>
+
+                {/* Audio Section */}
+                <section className="settings-section">
+                    <h2>Audio</h2>
 
-                    {/* All Monitors Direct Save Hotkey */}
                     <div className="settings-row">
-                        <label>Save Both Monitors</label>
+                        <label>Desktop Audio</label>
                         <div className="settings-input-group">
-                            <div className="settings-hotkey-wrapper">
+                            <label className="settings-switch">
                                 <input
-                                    type="text"
-                                    value={recordingHotkeyField === 'allMonitorsHotkey' ? "Press any key..." : (settings.allMonitorsHotkey || '')}
-                                    readOnly
-                                    className={`settings-hotkey-display ${recordingHotkeyField === 'allMonitorsHotkey' ? 'recording' : ''}`}
-                                    onClick={() => setRecordingHotkeyField('allMonitorsHotkey')}
-                                    onKeyDown={(e) => handleHotkeyKeyDown(e, 'allMonitorsHotkey')}
-                                    onBlur={() => setRecordingHotkeyField(null)}
-                                    placeholder="Click to set hotkey"
+                                    type="checkbox"
+                                    checked={settings.captureDesktopAudio}
+                                    onChange={(e) => handleChange('captureDesktopAudio', e.target.checked)}
                                 />
-                                {recordingHotkeyField === 'allMonitorsHotkey' && (
-                                    <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
-                                        Tap to cancel
-                                    </div>
-                                )}
-                            </div>
-                            <span className="settings-hint">Instantly save both monitors as separate files (no popup)</span>
+                                <span className="settings-switch-slider"></span>
+                            </label>
+                            <span className="settings-hint">Capture game and system audio</span>
+                            {settings.captureDesktopAudio && renderAudioSources('desktop')}
                         </div>
                     </div>
 
-                    {/* Buffer Toggle Hotkey */}
                     <div className="settings-row">
-                        <label>Toggle Buffer</label>
+                        <label>Microphone</label>
                         <div className="settings-input-group">
-                            <div className="settings-hotkey-wrapper">
+                            <label className="settings-switch">
                                 <input
-                                    type="text"
-                                    value={recordingHotkeyField === 'bufferToggleHotkey' ? "Press any key..." : (settings.bufferToggleHotkey || '')}
-                                    readOnly
-                                    className={`settings-hotkey-display ${recordingHotkeyField === 'bufferToggleHotkey' ? 'recording' : ''}`}
-                                    onClick={() => setRecordingHotkeyField('bufferToggleHotkey')}
-                                    onKeyDown={(e) => handleHotkeyKeyDown(e, 'bufferToggleHotkey')}
-                                    onBlur={() => setRecordingHotkeyField(null)}
-                                    placeholder="Click to set hotkey"
+                                    type="checkbox"
+                                    checked={settings.captureMicrophone}
+                                    onChange={(e) => handleChange('captureMicrophone', e.target.checked)}
                                 />
-                                {recordingHotkeyField === 'bufferToggleHotkey' && (
-                                    <div className="settings-hotkey-overlay" onClick={() => setRecordingHotkeyField(null)}>
-                                        Tap to cancel
-                                    </div>
-                                )}
-                            </div>
-                            <span className="settings-hint">Pause or resume the replay buffer</span>
+                                <span className="settings-switch-slider"></span>
+                            </label>
+                            <span className="settings-hint">Capture microphone audio</span>
+                            {settings.captureMicrophone && renderAudioSources('microphone')}
                         </div>
                     </div>
                 </section>
+
+                {/* Hotkeys Section */}
+                <section className="settings-section">
+                    <h2>Hotkeys</h2>
+
+                    {/* Main Save Replay Hotkey (shows overlay) */}
+                    {renderHotkeyRow('replayHotkey', 'Save Replay (Select Monitor)', 'Shows monitor selection popup (for multi-monitor)')}
+
+                    {/* Per-monitor Direct Save Hotkeys */}
+                    {monitors.map(m => renderHotkeyRow(
+                        `monitor:${m.key}`,
+                        `Save Monitor ${m.index + 1}`,
+                        `Instantly save only Monitor ${m.index + 1} (${m.label ? `${m.label}, ` : ''}${m.width}x${m.height}, no popup). Backspace clears.`
+                    ))}
+
+                    {/* Hotkeys of saved monitors that aren't connected - kept until the monitor returns */}
+                    {missingMonitors.filter(st => settings.monitorHotkeys?.[st.key]).map(st => renderHotkeyRow(
+                        `monitor:${st.key}`,
+                        `Save ${st.label || 'Monitor'} (not connected)`,
+                        `Applies again when ${st.label || 'this monitor'} (${st.width}x${st.height}) is reconnected. Backspace clears.`
+                    ))}
+
+                    {/* All Monitors Direct Save Hotkey */}
+                    {renderHotkeyRow('allMonitorsHotkey', 'Save All Monitors', 'Instantly save every monitor as a separate file (no popup)')}
+
+                    {/* Active Monitor Direct Save Hotkey */}
+                    {renderHotkeyRow('activeMonitorHotkey', 'Save Active Monitor', 'Instantly save the monitor under the mouse cursor (no popup)')}
+
+                    {/* Last N seconds Direct Save Hotkeys */}
+                    {clipLengthOptions.map(seconds => renderHotkeyRow(
+                        `length:${seconds}`,
+                        `Save Last ${seconds}s`,
+                        `Instantly save the last ${seconds} seconds of the buffer with the overlay's default action (no popup). Backspace clears.`
+                    ))}
+
+                    {/* Buffer Toggle Hotkey */}
+                    {renderHotkeyRow('bufferToggleHotkey', 'Toggle Buffer', 'Pause or resume the replay buffer')}
+                </section>
             </div>
         </div>
     );
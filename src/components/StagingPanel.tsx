@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import './StagingPanel.css';
+
+interface StagedReplay {
+    path: string;
+    name: string;
+    savedAt: string;
+    size: number;
+    monitors: number;
+    url: string;
+}
+
+const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+/**
+ * Replays that were saved but never cropped or deleted (app quit, crash, overlay closed)
+ * Hides itself when there's nothing left over
+ */
+const StagingPanel: React.FC = () => {
+    const [replays, setReplays] = useState<StagedReplay[]>([]);
+    const [busyPath, setBusyPath] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = () => {
+            window.electronAPI?.listStagedReplays()
+                .then(setReplays)
+                .catch(err => console.error('Failed to list staged replays:', err));
+        };
+        load();
+        return window.electronAPI?.onStagingUpdate(load);
+    }, []);
+
+    if (replays.length === 0) {
+        return null;
+    }
+
+    const handleSave = async (replay: StagedReplay) => {
+        setBusyPath(replay.path);
+        try {
+            await window.electronAPI?.processStagedReplay(replay.path);
+        } catch (err) {
+            console.error('Failed to process staged replay:', err);
+        } finally {
+            setBusyPath(null);
+        }
+    };
+
+    const handleDelete = async (replay: StagedReplay) => {
+        if (!confirm(`Permanently delete "${replay.name}"?`)) return;
+        setBusyPath(replay.path);
+        try {
+            await window.electronAPI?.deleteStagedReplay(replay.path);
+        } catch (err) {
+            console.error('Failed to delete staged replay:', err);
+        } finally {
+            setBusyPath(null);
+        }
+    };
+
+    return (
+        <div className="staging-panel">
+            <div className="staging-header">
+                <i className="ph ph-tray"></i>
+                <span className="staging-title">Unprocessed Replays</span>
+                <span className="staging-count">{replays.length}</span>
+            </div>
+
+            <div className="staging-list">
+                {replays.map(replay => (
+                    <div key={replay.path} className="staging-item">
+                        <div className="staging-item-info">
+                            <span className="staging-item-date">{new Date(replay.savedAt).toLocaleString()}</span>
+                            <span className="staging-item-meta">
+                                {replay.monitors > 0 && `${replay.monitors} ${replay.monitors === 1 ? 'monitor' : 'monitors'} · `}
+                                {formatSize(replay.size)}
+                            </span>
+                        </div>
+                        <button
+                            className="staging-btn primary"
+                            disabled={busyPath !== null}
+                            onClick={() => handleSave(replay)}
+                        >
+                            Save…
+                        </button>
+                        <button
+                            className="staging-btn"
+                            title="Delete"
+                            disabled={busyPath !== null}
+                            onClick={() => handleDelete(replay)}
+                        >
+                            <i className="ph ph-trash"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default StagingPanel;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import './TrimEditor.css';
+
+export interface TrimRange {
+    start: number;
+    end: number;
+}
+
+// Shortest clip the handles can be squeezed down to, in seconds
+const MIN_TRIM_LENGTH = 1;
+
+const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds - minutes * 60;
+    return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+// Time under the pointer along the scrubber track
+const timeFromPointer = (track: HTMLDivElement | null, clientX: number, duration: number) => {
+    if (!track || !duration) return 0;
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return ratio * duration;
+};
+
+/**
+ * Preview of a saved replay with in/out handles on a scrubber
+ * Reports null while the full length is selected
+ * presets are "last N seconds" shortcuts, shown when the replay is longer than N
+ */
+const TrimEditor: React.FC<{
+    src: string;
+    onChange: (range: TrimRange | null) => void;
+    presets?: number[];
+}> = ({ src, onChange, presets = [] }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const trackRef = useRef<HTMLDivElement>(null);
+    const [duration, setDuration] = useState(0);
+    const [range, setRange] = useState<TrimRange>({ start: 0, end: 0 });
+    const [currentTime, setCurrentTime] = useState(0);
+    const [dragging, setDragging] = useState<'start' | 'end' | null>(null);
+
+    // Report the range, or null when nothing is trimmed off
+    useEffect(() => {
+        if (!duration) return;
+        const trimmed = range.start > 0 || range.end < duration;
+        onChange(trimmed ? range : null);
+    }, [range, duration, onChange]);
+
+    const seek = (time: number) => {
+        if (videoRef.current) videoRef.current.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    useEffect(() => {
+        if (!dragging) return;
+
+        const handleMove = (e: PointerEvent) => {
+            const time = timeFromPointer(trackRef.current, e.clientX, duration);
+            if (dragging === 'start') {
+                const start = Math.max(Math.min(time, range.end - MIN_TRIM_LENGTH), 0);
+                setRange({ ...range, start });
+                seek(start);
+            } else {
+                const end = Math.min(Math.max(time, range.start + MIN_TRIM_LENGTH), duration);
+                setRange({ ...range, end });
+                seek(end);
+            }
+        };
+        const handleUp = () => setDragging(null);
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    }, [dragging, duration, range]);
+
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video || !Number.isFinite(video.duration)) return;
+        setDuration(video.duration);
+        setRange({ start: 0, end: video.duration });
+    };
+
+    // Keep playback looping inside the selected range
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (!dragging && (video.currentTime >= range.end || video.currentTime < range.start)) {
+            video.currentTime = range.start;
+        }
+        setCurrentTime(video.currentTime);
+    };
+
+    const handleTrackPointerDown = (e: React.PointerEvent) => {
+        const time = timeFromPointer(trackRef.current, e.clientX, duration);
+        seek(Math.min(Math.max(time, range.start), range.end));
+    };
+
+    const percent = (time: number) => duration ? `${(time / duration) * 100}%` : '0%';
+
+    const selectLast = (seconds: number) => {
+        const start = Math.max(duration - seconds, 0);
+        setRange({ start, end: duration });
+        seek(start);
+    };
+    const availablePresets = presets.filter(seconds => seconds < duration);
+    const isFull = range.start <= 0 && range.end >= duration;
+
+    return (
+        <div className="trim-editor">
+            <video
+                ref={videoRef}
+                className="trim-video"
+                src={src}
+                autoPlay
+                muted
+                onLoadedMetadata={handleLoadedMetadata}
+                onTimeUpdate={handleTimeUpdate}
+                onClick={() => {
+                    const video = videoRef.current;
+                    if (!video) return;
+                    if (video.paused) video.play(); else video.pause();
+                }}
+            />
+
+            <div
+                ref={trackRef}
+                className="trim-track"
+                onPointerDown={handleTrackPointerDown}
+            >
+                <div
+                    className="trim-selection"
+                    style={{ left: percent(range.start), width: `calc(${percent(range.end)} - ${percent(range.start)})` }}
+                />
+                <div className="trim-playhead" style={{ left: percent(currentTime) }} />
+                <div
+                    className="trim-handle start"
+                    style={{ left: percent(range.start) }}
+                    onPointerDown={(e) => { e.stopPropagation(); setDragging('start'); }}
+                />
+                <div
+                    className="trim-handle end"
+                    style={{ left: percent(range.end) }}
+                    onPointerDown={(e) => { e.stopPropagation(); setDragging('end'); }}
+                />
+            </div>
+
+            <div className="trim-info">
+                <span>{formatTime(range.start)} – {formatTime(range.end)}</span>
+                <span className="trim-length">{(range.end - range.start).toFixed(1)}s of {duration.toFixed(1)}s</span>
+                {availablePresets.length === 0 && !isFull && (
+                    <button className="trim-reset-btn" onClick={() => setRange({ start: 0, end: duration })}>
+                        Reset
+                    </button>
+                )}
+            </div>
+
+            {availablePresets.length > 0 && (
+                <div className="trim-presets">
+                    {availablePresets.map(seconds => (
+                        <button
+                            key={seconds}
+                            className={`trim-preset-btn ${range.end >= duration && Math.abs(range.end - range.start - seconds) < 0.05 ? 'active' : ''}`}
+                            onClick={() => selectLast(seconds)}
+                        >
+                            Last {seconds}s
+                        </button>
+                    ))}
+                    <button
+                        className={`trim-preset-btn ${isFull ? 'active' : ''}`}
+                        onClick={() => setRange({ start: 0, end: duration })}
+                    >
+                        Full
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TrimEditor;